@@ -4,8 +4,58 @@ import sqlite3 from 'better-sqlite3';
 import { z } from 'zod';
 import dotenv from 'dotenv';
 import Papa from 'papaparse';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, SchemaType, type ResponseSchema } from '@google/generative-ai';
 import { PassThrough } from 'stream';
+import { EventEmitter } from 'events';
+import { createHash, randomUUID } from 'crypto';
+import {
+  type AspectSentiment,
+  type Emotion,
+  type Intent,
+  type SentimentAnalysis,
+  type TaxonomyEntry,
+  EMOTIONS,
+  GENERAL_ENTITY,
+  INTENTS,
+  finalizeAspects,
+} from './server/analysis';
+import {
+  type ColumnMapping,
+  findColumn,
+  getRowDate,
+  guessColumnMapping,
+  normalizeDateValue,
+  parseCountValue,
+  parseRatingValue,
+  parseUrlValue,
+  readMappedValue,
+  resolveColumnMapping,
+} from './server/columns';
+import { type DuplicateMode, buildReviewFingerprint, createDuplicateCheck } from './server/fingerprint';
+import { type ParsedUpload, parseUploadBody } from './server/formats';
+import {
+  CONTRAST_TERMS,
+  INTENSIFIER_TERMS,
+  NEGATION_TERMS,
+  QUESTION_TERMS,
+  buildLexiconVocabulary,
+  classifyWithLexicon,
+  classifyWithMock,
+  extractLexiconAspects,
+} from './server/lexicon';
+import { createRateLimiter, getRetryDelayMs, isDailyQuotaError } from './server/quota';
+import { normalizeWithDictionary } from './server/normalization';
+import { buildSearchExpression } from './server/search';
+import {
+  type TrendBucket,
+  type TrendGranularity,
+  MAX_TREND_BUCKETS,
+  MAX_TREND_GROUPS,
+  TREND_BUCKET_SQL,
+  fillTrendBuckets,
+  trendBucketKeys,
+} from './server/trends';
+import { validateModelOutput } from './server/validation';
 
 // --- CONFIGURATION ---
 dotenv.config();
@@ -53,6 +103,353 @@ if (!hasUploadedAt) {
   db.exec(`UPDATE reviews SET uploaded_at = datetime('now') WHERE uploaded_at IS NULL`);
 }
 
+db.exec(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    platform TEXT,
+    file_name TEXT,
+    payload TEXT,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    total_batches INTEGER NOT NULL DEFAULT 0,
+    completed_batches INTEGER NOT NULL DEFAULT 0,
+    ai_count INTEGER NOT NULL DEFAULT 0,
+    fallback_count INTEGER NOT NULL DEFAULT 0,
+    message TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    updated_at TEXT,
+    finished_at TEXT
+  );
+`);
+
+const addColumnIfMissing = (table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((existing) => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+addColumnIfMissing('jobs', 'duplicate_mode', `TEXT NOT NULL DEFAULT 'skip'`);
+addColumnIfMissing('jobs', 'new_count', 'INTEGER NOT NULL DEFAULT 0');
+addColumnIfMissing('jobs', 'duplicate_count', 'INTEGER NOT NULL DEFAULT 0');
+addColumnIfMissing('jobs', 'updated_count', 'INTEGER NOT NULL DEFAULT 0');
+// When the current run of a job started and how many batches were already done, so the ETA of a job resumed
+// after a restart is based on this run's pace only.
+addColumnIfMissing('jobs', 'run_started_at', 'TEXT');
+addColumnIfMissing('jobs', 'run_start_batches', 'INTEGER NOT NULL DEFAULT 0');
+
+// Fingerprints identify the same review across re-uploads of an export. Rows stored before
+// fingerprinting existed are backfilled; only the first of any existing duplicates keeps one.
+addColumnIfMissing('reviews', 'fingerprint', 'TEXT');
+const unfingerprintedReviews = db.prepare(
+  'SELECT id, platform, content, date FROM reviews WHERE fingerprint IS NULL ORDER BY id'
+).all() as Array<{ id: number; platform: string; content: string; date: string }>;
+if (unfingerprintedReviews.length > 0) {
+  const existingFingerprints = new Set(
+    (db.prepare('SELECT fingerprint FROM reviews WHERE fingerprint IS NOT NULL').all() as Array<{ fingerprint: string }>)
+      .map((row) => row.fingerprint)
+  );
+  const setFingerprint = db.prepare('UPDATE reviews SET fingerprint = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const review of unfingerprintedReviews) {
+      const fingerprint = buildReviewFingerprint(review.platform, review.content, review.date, null);
+      if (existingFingerprints.has(fingerprint)) continue;
+      existingFingerprints.add(fingerprint);
+      setFingerprint.run(fingerprint, review.id);
+    }
+  })();
+}
+db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_fingerprint ON reviews (fingerprint) WHERE fingerprint IS NOT NULL`);
+// Set when the export had no usable date and `date` is the upload day; such rows are fingerprinted
+// with an empty date so a later re-upload of the same file is still recognized.
+addColumnIfMissing('reviews', 'date_is_fallback', 'INTEGER NOT NULL DEFAULT 0');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS mapping_presets (
+    platform TEXT PRIMARY KEY,
+    mapping TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`);
+
+// Every upload is kept as a record so a single batch can be deleted or re-analyzed on its own.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS uploads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_name TEXT,
+    platform TEXT,
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    new_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    updated_count INTEGER NOT NULL DEFAULT 0,
+    ai_count INTEGER NOT NULL DEFAULT 0,
+    fallback_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+`);
+addColumnIfMissing('jobs', 'upload_id', 'INTEGER');
+addColumnIfMissing('reviews', 'upload_id', 'INTEGER REFERENCES uploads(id)');
+db.exec(`CREATE INDEX IF NOT EXISTS idx_reviews_upload_id ON reviews (upload_id)`);
+
+addColumnIfMissing('reviews', 'author', 'TEXT');
+addColumnIfMissing('reviews', 'reach', 'INTEGER');
+addColumnIfMissing('reviews', 'rating', 'REAL');
+addColumnIfMissing('reviews', 'source_url', 'TEXT');
+addColumnIfMissing('reviews', 'external_id', 'TEXT');
+
+// Reviews stored before upload tracking are grouped into one legacy upload per platform.
+const legacyGroups = db.prepare(`
+  SELECT platform, COUNT(*) as total, MIN(uploaded_at) as first_uploaded_at
+  FROM reviews
+  WHERE upload_id IS NULL
+  GROUP BY platform
+`).all() as Array<{ platform: string | null; total: number; first_uploaded_at: string | null }>;
+if (legacyGroups.length > 0) {
+  db.transaction(() => {
+    for (const group of legacyGroups) {
+      const { lastInsertRowid } = db.prepare(`
+        INSERT INTO uploads (file_name, platform, total_rows, new_count, created_at)
+        VALUES (NULL, ?, ?, ?, ?)
+      `).run(group.platform, group.total, group.total, group.first_uploaded_at ? `${group.first_uploaded_at.replace(' ', 'T')}Z` : new Date().toISOString());
+      db.prepare('UPDATE reviews SET upload_id = ? WHERE upload_id IS NULL AND platform IS ?').run(lastInsertRowid, group.platform);
+    }
+  })();
+}
+
+// A review can praise one aspect and complain about another ("kopinya enak tapi pelayanan lelet"),
+// so every (aspect, sentiment, score, evidence) tuple is stored separately. reviews.entity keeps the
+// dominant aspect for older clients; reviews analyzed before aspects existed get it as their only tuple.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS review_aspects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    review_id INTEGER NOT NULL REFERENCES reviews(id),
+    aspect TEXT NOT NULL,
+    sentiment TEXT NOT NULL,
+    score REAL NOT NULL,
+    evidence TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_review_aspects_review_id ON review_aspects (review_id);
+  CREATE INDEX IF NOT EXISTS idx_review_aspects_aspect ON review_aspects (aspect);
+`);
+db.prepare(`
+  INSERT INTO review_aspects (review_id, aspect, sentiment, score, evidence)
+  SELECT id, COALESCE(NULLIF(entity, ''), 'General'), COALESCE(sentiment, 'neutral'), COALESCE(score, 0.5), NULL
+  FROM reviews
+  WHERE id NOT IN (SELECT review_id FROM review_aspects)
+`).run();
+
+addColumnIfMissing('jobs', 'cache_count', 'INTEGER NOT NULL DEFAULT 0');
+
+// Where a review's labels came from: the provider ('ai'), the analysis cache, the neutral fallback
+// used when the provider is unavailable, or a manual correction. Rows from before this column get
+// 'fallback' when they carry exactly the fallback labels; a genuine neutral/General answer is at
+// worst retried once.
+addColumnIfMissing('reviews', 'analysis_source', 'TEXT');
+db.prepare(`
+  UPDATE reviews
+  SET analysis_source = CASE WHEN sentiment = 'neutral' AND score = 0.5 AND entity = 'General' THEN 'fallback' ELSE 'ai' END
+  WHERE analysis_source IS NULL
+`).run();
+db.exec(`CREATE INDEX IF NOT EXISTS idx_reviews_analysis_source ON reviews (analysis_source)`);
+
+// Audit trail of manual corrections, one row per changed field.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS review_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    review_id INTEGER NOT NULL REFERENCES reviews(id),
+    field TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_review_history_review_id ON review_history (review_id);
+`);
+// History of reviews deleted with their upload, moved here with the text it was about so the audit trail survives.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS review_history_archive (
+    id INTEGER PRIMARY KEY,
+    review_id INTEGER NOT NULL,
+    review_content TEXT,
+    upload_id INTEGER,
+    field TEXT NOT NULL,
+    old_value TEXT,
+    new_value TEXT,
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL,
+    archived_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_review_history_archive_review_id ON review_history_archive (review_id);
+`);
+addColumnIfMissing('uploads', 'cache_count', 'INTEGER NOT NULL DEFAULT 0');
+
+// Model output items checked against the schema and how many failed on the first attempt (before repair).
+for (const table of ['jobs', 'uploads']) {
+  addColumnIfMissing(table, 'validated_count', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(table, 'parse_failure_count', 'INTEGER NOT NULL DEFAULT 0');
+}
+
+// Short reviews ("enak", "lelet") repeat across uploads; their analysis is reused instead of calling
+// the provider again. The key covers normalized text plus provider, model and prompt version.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS analysis_cache (
+    cache_key TEXT PRIMARY KEY,
+    analysis_version TEXT NOT NULL,
+    sentiment TEXT NOT NULL,
+    score REAL NOT NULL,
+    entity TEXT NOT NULL,
+    aspects TEXT NOT NULL DEFAULT '[]',
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT NOT NULL
+  );
+`);
+
+// Accuracy runs against a labelled gold set, kept so prompt and model versions can be compared.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS evaluation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id TEXT,
+    label TEXT,
+    file_name TEXT,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    analysis_version TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    total_items INTEGER NOT NULL DEFAULT 0,
+    sentiment_accuracy REAL,
+    entity_accuracy REAL,
+    report TEXT,
+    created_at TEXT NOT NULL,
+    finished_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS evaluation_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES evaluation_runs(id),
+    content TEXT NOT NULL,
+    expected_sentiment TEXT,
+    expected_entity TEXT,
+    predicted_sentiment TEXT,
+    predicted_entity TEXT,
+    predicted_score REAL,
+    analysis_source TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_evaluation_items_run_id ON evaluation_items (run_id);
+`);
+
+// Classification prompts are versioned in the database; exactly one version is active at a time.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS prompt_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    notes TEXT,
+    is_active INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    activated_at TEXT,
+    UNIQUE (name, version)
+  );
+`);
+
+// Which model and prompt version produced a review's labels (both NULL for fallback and manual labels).
+addColumnIfMissing('reviews', 'analysis_model', 'TEXT');
+addColumnIfMissing('reviews', 'prompt_version', 'TEXT');
+addColumnIfMissing('evaluation_runs', 'prompt_version', 'TEXT');
+
+// Why a review got its labels: a short explanation, the phrases that drove it and the classifier's confidence.
+for (const table of ['reviews', 'analysis_cache']) {
+  addColumnIfMissing(table, 'explanation', 'TEXT');
+  addColumnIfMissing(table, 'keywords', 'TEXT');
+  addColumnIfMissing(table, 'confidence', 'REAL');
+}
+
+// Emotion and intent of a review, a second dimension next to sentiment (NULL when not classified).
+for (const table of ['reviews', 'analysis_cache']) {
+  addColumnIfMissing(table, 'emotion', 'TEXT');
+  addColumnIfMissing(table, 'intent', 'TEXT');
+}
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_reviews_emotion ON reviews (emotion);
+  CREATE INDEX IF NOT EXISTS idx_reviews_intent ON reviews (intent);
+`);
+
+// Built-in prompts ship with the code and are upgraded automatically; custom ones are left alone.
+addColumnIfMissing('prompt_templates', 'builtin', 'INTEGER NOT NULL DEFAULT 0');
+db.prepare(`UPDATE prompt_templates SET builtin = 1 WHERE version = 1 AND notes = 'Initial prompt'`).run();
+
+// Provider calls and tokens per UTC day, checked against the daily budget before every request.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS ai_usage (
+    day TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    request_count INTEGER NOT NULL DEFAULT 0,
+    review_count INTEGER NOT NULL DEFAULT 0,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    rate_limited_count INTEGER NOT NULL DEFAULT 0,
+    exhausted_at TEXT,
+    PRIMARY KEY (day, provider, model)
+  );
+`);
+
+// Entities the classifiers may assign; seeded with the original prompt list on first start.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS entity_taxonomy (
+    name TEXT PRIMARY KEY COLLATE NOCASE,
+    description TEXT NOT NULL DEFAULT '',
+    keywords TEXT NOT NULL DEFAULT '[]',
+    synonyms TEXT NOT NULL DEFAULT '[]',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL
+  );
+`);
+
+// Slang, abbreviations and emoji expanded before analysis; editable from the settings page.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS slang_dictionary (
+    term TEXT PRIMARY KEY COLLATE NOCASE,
+    replacement TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`);
+// Raw content normalized with the current dictionary and taxonomy, for search and the lexicon classifier. Rewritten
+// by a background job after dictionary or taxonomy edits, so it can be newer than the stored labels.
+addColumnIfMissing('reviews', 'normalized_content', 'TEXT');
+
+// The paged review listing sorts and filters on these.
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_reviews_date ON reviews (date);
+  CREATE INDEX IF NOT EXISTS idx_reviews_platform ON reviews (platform);
+  CREATE INDEX IF NOT EXISTS idx_reviews_sentiment ON reviews (sentiment);
+`);
+
+// Full-text index over the raw and normalized text, kept in sync with reviews by triggers. Built from
+// the existing rows the first time it is created.
+const hasSearchIndex = Boolean(db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'reviews_fts'`).get());
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS reviews_fts USING fts5(
+    content, normalized_content, content = 'reviews', content_rowid = 'id', tokenize = 'unicode61 remove_diacritics 2'
+  );
+  CREATE TRIGGER IF NOT EXISTS reviews_fts_insert AFTER INSERT ON reviews BEGIN
+    INSERT INTO reviews_fts (rowid, content, normalized_content) VALUES (new.id, new.content, new.normalized_content);
+  END;
+  CREATE TRIGGER IF NOT EXISTS reviews_fts_delete AFTER DELETE ON reviews BEGIN
+    INSERT INTO reviews_fts (reviews_fts, rowid, content, normalized_content) VALUES ('delete', old.id, old.content, old.normalized_content);
+  END;
+  CREATE TRIGGER IF NOT EXISTS reviews_fts_update AFTER UPDATE OF content, normalized_content ON reviews BEGIN
+    INSERT INTO reviews_fts (reviews_fts, rowid, content, normalized_content) VALUES ('delete', old.id, old.content, old.normalized_content);
+    INSERT INTO reviews_fts (rowid, content, normalized_content) VALUES (new.id, new.content, new.normalized_content);
+  END;
+`);
+if (!hasSearchIndex) db.exec(`INSERT INTO reviews_fts (reviews_fts) VALUES ('rebuild')`);
+
 // --- MIDDLEWARE ---
 app.use((req, res, next) => {
   const origin = req.headers.origin;
@@ -87,8 +484,17 @@ app.use((req, res, next) => {
   next();
 });
 
-// We use the JSON parser for other routes. The CSV route will handle the raw stream.
-app.use(bodyParser.json({ limit: '50mb' }));
+// File uploads read the raw body themselves (the CSV route streams it), so the JSON parser skips them
+// even when a JSON file is sent as application/json.
+const RAW_BODY_PATHS = new Set(['/api/upload-csv', '/api/upload', '/api/upload-preview', '/api/evaluations']);
+const jsonParser = bodyParser.json({ limit: '50mb' });
+app.use((req, res, next) => {
+  if (req.method === 'POST' && RAW_BODY_PATHS.has(req.path)) {
+    next();
+    return;
+  }
+  jsonParser(req, res, next);
+});
 app.use(express.static('dist'));
 
 // --- SCHEMAS ---
@@ -103,6 +509,48 @@ const ReviewSchema = z.object({
 const UploadRequestSchema = z.object({
   reviews: z.array(ReviewSchema),
 });
+const ColumnNameSchema = z.string().trim().min(1).optional().catch(undefined);
+const ColumnMappingSchema = z.object({
+  content: ColumnNameSchema,
+  date: ColumnNameSchema,
+  author: ColumnNameSchema,
+  rating: ColumnNameSchema,
+  reach: ColumnNameSchema,
+  url: ColumnNameSchema,
+  external_id: ColumnNameSchema,
+});
+const DateParamSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const ReanalyzeFilterSchema = z.object({
+  fallback_only: z.boolean().default(true),
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional(),
+  upload_id: z.number().int().positive().optional(),
+});
+const ReviewCorrectionSchema = z.object({
+  sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
+  score: z.number().min(0).max(1).optional(),
+  entity: z.string().trim().min(1).optional(),
+  // null clears the label.
+  emotion: z.enum(EMOTIONS).nullable().optional(),
+  intent: z.enum(INTENTS).nullable().optional(),
+  changed_by: z.string().trim().min(1).max(80).default('analyst'),
+}).refine(
+  (body) => ['sentiment', 'score', 'entity', 'emotion', 'intent'].some((field) => body[field as keyof typeof body] !== undefined),
+  'Provide at least one of sentiment, score, entity, emotion or intent.'
+);
+const TermListSchema = z.array(z.string().trim().toLowerCase().min(1).max(60)).max(200).default([]);
+const TaxonomyEntrySchema = z.object({
+  description: z.string().trim().max(500).default(''),
+  keywords: TermListSchema,
+  synonyms: TermListSchema,
+  sort_order: z.number().int().optional(),
+});
+const SlangEntrySchema = z.object({
+  replacement: z.string().trim().min(1).max(100),
+});
+const NormalizePreviewSchema = z.object({
+  text: z.string().max(5000),
+});
 
 // --- GEMINI AI SERVICE (SERVER-SIDE) ---
 const apiKey = process.env.GEMINI_API_KEY;
@@ -110,34 +558,44 @@ if (!apiKey) {
   console.error("❌ GEMINI_API_KEY is not defined in your .env file");
   console.error("⚠️  Please create a .env file with: GEMINI_API_KEY=your_actual_api_key");
   console.error("⚠️  Get your API key from: https://makersuite.google.com/app/apikey");
+  console.error("⚠️  Until then reviews are classified by the offline lexicon provider (SENTIMENT_PROVIDER=lexicon)");
 }
 const genAI = new GoogleGenerativeAI(apiKey || "");
+const geminiModel = process.env.GEMINI_MODEL || "gemini-2.5-flash";
 
 interface Mention {
   id: string;
   source: string;
   content: string;
   date: string;
-}
-interface SentimentAnalysis {
-  mentionId: string;
-  sentiment: "positive" | "neutral" | "negative";
-  score: number;
-  entity: string;
+  // True when `date` is the upload day because the export had none.
+  dateIsFallback?: boolean;
+  fingerprint: string;
+  author?: string | null;
+  reach?: number | null;
+  rating?: number | null;
+  sourceUrl?: string | null;
+  externalId?: string | null;
+  // Set when re-analyzing a review that is already stored.
+  reviewId?: number;
+  // Set when the mention is a gold-set item of an evaluation run.
+  evaluationItemId?: number;
+  // Slang-expanded text for the rule-based classifiers (and their cache key); filled in when the job runs, since the dictionary may change.
+  normalizedContent?: string;
 }
 
 interface BatchAnalysisResult {
   results: SentimentAnalysis[];
   stopFurtherAiCalls?: boolean;
+  // The whole batch got fallback labels.
+  usedFallback?: boolean;
+  // Individual mentions that got fallback labels because their output stayed invalid after repair.
+  fallbackMentionIds?: string[];
+  // Items whose model output was checked against the schema, and how many of them failed on the first try.
+  validatedCount?: number;
+  parseFailureCount?: number;
 }
 
-const normalizeSentiment = (value: unknown): SentimentAnalysis['sentiment'] => {
-  if (value === 'positive' || value === 'negative' || value === 'neutral') {
-    return value;
-  }
-  return 'neutral';
-};
-
 function safeJSONParse<T>(text: string, fallback: T): T {
   if (typeof text !== 'string' || !text.trim().length) return fallback;
   try {
@@ -149,127 +607,196 @@ function safeJSONParse<T>(text: string, fallback: T): T {
   }
 }
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const normalizeDateValue = (value: unknown): string | null => {
-  if (value === null || value === undefined) return null;
-
-  const text = String(value).trim();
-  if (!text) return null;
-
-  const unix = text.match(/^\d{10,13}$/);
-  if (unix) {
-    const raw = Number(text);
-    const asMs = text.length === 10 ? raw * 1000 : raw;
-    const fromUnix = new Date(asMs);
-    if (!Number.isNaN(fromUnix.getTime())) {
-      const year = fromUnix.getUTCFullYear();
-      if (year >= 2000 && year <= 2100) {
-        return fromUnix.toISOString().slice(0, 10);
-      }
-    }
-  }
+// --- COLUMN MAPPING ---
+const getMappingPreset = (platform: string): ColumnMapping => {
+  const preset = db.prepare('SELECT mapping FROM mapping_presets WHERE platform = ?').pluck().get(platform) as string | undefined;
+  return preset ? ColumnMappingSchema.parse(JSON.parse(preset)) : {};
+};
 
-  const asDate = new Date(text);
-  if (!Number.isNaN(asDate.getTime())) {
-    const year = asDate.getUTCFullYear();
-    if (year >= 2000 && year <= 2100) {
-      return asDate.toISOString().slice(0, 10);
-    }
-  }
+const buildFallbackAnalyses = (mentions: Mention[]): SentimentAnalysis[] =>
+  mentions.map((mention) => ({
+    mentionId: mention.id,
+    sentiment: 'neutral',
+    score: 0.5,
+    entity: 'General',
+    aspects: [{ aspect: 'General', sentiment: 'neutral', score: 0.5, evidence: null }],
+    explanation: null,
+    keywords: [],
+    confidence: null,
+    emotion: null,
+    intent: null
+  }));
 
-  const ddmmyyyy = text.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
-  if (ddmmyyyy) {
-    const day = Number(ddmmyyyy[1]);
-    const month = Number(ddmmyyyy[2]);
-    const year = Number(ddmmyyyy[3]);
-    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
-      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    }
-  }
+// --- ENTITY TAXONOMY ---
+// The managed list of topics. The Gemini prompt and the lexicon rules are generated from it, and
+// every label a classifier returns is mapped onto it, so new topics need no code change.
+
+// Ordered by precedence: when two entities tie, the earlier one wins (waiting time beats taste, etc.).
+const DEFAULT_TAXONOMY: Array<Omit<TaxonomyEntry, 'sort_order'>> = [
+  {
+    name: 'Service',
+    description: 'pelayanan, staff, kasir, waiters, karyawan, customer service, waiting time issues. "pelayanan" = Service (NOT General or Ambiance)',
+    keywords: ['pelayanan', 'layanan', 'pelayan', 'staff', 'staf', 'kasir', 'barista', 'waiter', 'waiters', 'karyawan', 'service', 'customer service', 'lama', 'lambat', 'lelet', 'antri', 'antre', 'nunggu', 'menunggu', 'ramah', 'jutek', 'slow'],
+    synonyms: ['staff', 'pelayanan', 'customer service', 'waiting time'],
+  },
+  {
+    name: 'Quality',
+    description: 'rasa, taste, menu, makanan, minuman, food, drink quality, enak (when talking about food/drink taste)',
+    keywords: ['rasa', 'taste', 'menu', 'makanan', 'minuman', 'food', 'drink', 'kopi', 'coffee', 'latte', 'enak', 'nikmat', 'lezat', 'hambar', 'pahit', 'manis', 'delicious', 'cold brew'],
+    synonyms: ['taste', 'food', 'drink', 'product', 'food quality', 'rasa'],
+  },
+  {
+    name: 'Price',
+    description: 'harga, mahal, murah, pricing, value, cost',
+    keywords: ['harga', 'mahal', 'murah', 'price', 'pricing', 'value', 'cost', 'worth', 'promo', 'diskon', 'expensive'],
+    synonyms: ['pricing', 'value', 'cost', 'harga'],
+  },
+  {
+    name: 'Ambiance',
+    description: 'tempat (place), nyaman (comfortable place), cozy, suasana, interior, decoration, wifi, atmosphere, ruang. "tempat" = Ambiance (NOT General)',
+    keywords: ['tempat', 'nyaman', 'cozy', 'suasana', 'interior', 'dekorasi', 'decoration', 'wifi', 'atmosphere', 'ruang', 'ruangan', 'musik', 'berisik', 'panas', 'sempit', 'kotor', 'jorok'],
+    synonyms: ['ambience', 'atmosphere', 'place', 'suasana', 'tempat'],
+  },
+  {
+    name: 'Location',
+    description: 'lokasi, parking, accessibility, alamat',
+    keywords: ['lokasi', 'parkir', 'parking', 'akses', 'accessibility', 'alamat', 'jalan', 'location'],
+    synonyms: ['lokasi', 'parking', 'access'],
+  },
+  {
+    name: GENERAL_ENTITY,
+    description: 'only when review covers multiple topics or is too general',
+    keywords: [],
+    synonyms: ['other', 'overall', 'umum'],
+  },
+];
+
+const seedTaxonomy = db.prepare(`
+  INSERT INTO entity_taxonomy (name, description, keywords, synonyms, sort_order, updated_at)
+  VALUES (@name, @description, @keywords, @synonyms, @sort_order, @updated_at)
+  ON CONFLICT(name) DO NOTHING
+`);
+if ((db.prepare('SELECT COUNT(*) FROM entity_taxonomy').pluck().get() as number) === 0) {
+  db.transaction(() => {
+    DEFAULT_TAXONOMY.forEach((entry, index) => seedTaxonomy.run({
+      ...entry,
+      keywords: JSON.stringify(entry.keywords),
+      synonyms: JSON.stringify(entry.synonyms),
+      sort_order: index,
+      updated_at: new Date().toISOString(),
+    }));
+  })();
+}
+// General cannot be deleted through the API, but make sure it survives a hand-edited database too.
+seedTaxonomy.run({
+  ...DEFAULT_TAXONOMY[DEFAULT_TAXONOMY.length - 1],
+  keywords: '[]',
+  synonyms: JSON.stringify(DEFAULT_TAXONOMY[DEFAULT_TAXONOMY.length - 1].synonyms),
+  sort_order: DEFAULT_TAXONOMY.length - 1,
+  updated_at: new Date().toISOString(),
+});
 
-  const yyyymmdd = text.match(/^(\d{4})[\/-](\d{1,2})[\/-](\d{1,2})$/);
-  if (yyyymmdd) {
-    const year = Number(yyyymmdd[1]);
-    const month = Number(yyyymmdd[2]);
-    const day = Number(yyyymmdd[3]);
-    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
-      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    }
+let taxonomyCache: TaxonomyEntry[] | null = null;
+
+const getTaxonomy = (): TaxonomyEntry[] => {
+  if (!taxonomyCache) {
+    const rows = db.prepare('SELECT name, description, keywords, synonyms, sort_order FROM entity_taxonomy ORDER BY name = ?, sort_order, name').all(GENERAL_ENTITY) as
+      Array<Omit<TaxonomyEntry, 'keywords' | 'synonyms'> & { keywords: string; synonyms: string }>;
+    taxonomyCache = rows.map((row) => ({
+      ...row,
+      keywords: safeJSONParse<string[]>(row.keywords, []),
+      synonyms: safeJSONParse<string[]>(row.synonyms, []),
+    }));
   }
-
-  return null;
+  return taxonomyCache;
 };
 
-const normalizeHeader = (key: string): string => key.toLowerCase().replace(/[^a-z0-9]/g, '');
-
-const DATE_KEYS = new Set([
-  'date',
-  'publishdate',
-  'publishedat',
-  'publishedtime',
-  'createdat',
-  'createdtime',
-  'createtime',
-  'timestamp',
-  'time',
-  'datetime',
-  'postdate',
-  'posttime',
-  'uploadtime',
-  'tanggal',
-  'waktu'
-]);
-
-const DATE_HINTS = ['date', 'time', 'created', 'create', 'publish', 'posted', 'timestamp', 'epoch', 'unix', 'tanggal', 'waktu'];
-
-const getRowDate = (row: Record<string, unknown>): string | null => {
-  const keys = Object.keys(row);
-
-  const exactDateKey = keys.find((key) => DATE_KEYS.has(normalizeHeader(key)));
-  if (exactDateKey) {
-    const normalized = normalizeDateValue(row[exactDateKey]);
-    if (normalized) return normalized;
-  }
+// Maps any classifier label (casing variants, synonyms) onto a taxonomy name; unknown labels become General.
+const resolveEntity = (label: string | null | undefined): string => {
+  const normalized = (label || '').trim().toLowerCase();
+  if (!normalized) return GENERAL_ENTITY;
+  const match = getTaxonomy().find((entry) =>
+    entry.name.toLowerCase() === normalized || entry.synonyms.includes(normalized)
+  );
+  return match ? match.name : GENERAL_ENTITY;
+};
 
-  const hintedDateKey = keys.find((key) => {
-    const normalized = normalizeHeader(key);
-    return DATE_HINTS.some((hint) => normalized.includes(hint));
-  });
-  if (hintedDateKey) {
-    const normalized = normalizeDateValue(row[hintedDateKey]);
-    if (normalized) return normalized;
+const buildEntityPromptRules = (taxonomy: TaxonomyEntry[]): string =>
+  taxonomy.map((entry) => {
+    const keywords = entry.keywords.length > 0 ? ` Keywords: ${entry.keywords.join(', ')}` : '';
+    return `- "${entry.name}" - ${entry.description || entry.name}${keywords}`;
+  }).join('\n');
+
+// Brings the stored model labels of reviews firstId..lastId in line with the taxonomy after it changes.
+// Manual corrections are left alone, and every relabelled review or aspect gets a review_history row so
+// the change can be traced. Returns how many labels changed.
+const remapReviewEntities = (firstId: number, lastId: number): number => {
+  const insertHistory = db.prepare(`
+    INSERT INTO review_history (review_id, field, old_value, new_value, changed_by, changed_at)
+    VALUES (?, ?, ?, ?, 'taxonomy', ?)
+  `);
+  const changedAt = nowIso();
+  let changed = 0;
+  const reviews = db.prepare(`
+    SELECT id, entity FROM reviews WHERE id BETWEEN ? AND ? AND analysis_source IS NOT 'manual'
+  `).all(firstId, lastId) as Array<{ id: number; entity: string | null }>;
+  const setEntity = db.prepare('UPDATE reviews SET entity = ? WHERE id = ?');
+  for (const review of reviews) {
+    const resolved = resolveEntity(review.entity);
+    if (resolved === review.entity) continue;
+    setEntity.run(resolved, review.id);
+    insertHistory.run(review.id, 'entity', review.entity, resolved, changedAt);
+    changed += 1;
   }
-
-  for (const key of keys) {
-    const normalized = normalizeDateValue(row[key]);
-    if (normalized) return normalized;
+  const aspects = db.prepare(`
+    SELECT review_aspects.id, review_aspects.review_id, review_aspects.aspect FROM review_aspects
+    JOIN reviews ON reviews.id = review_aspects.review_id
+    WHERE reviews.id BETWEEN ? AND ? AND reviews.analysis_source IS NOT 'manual'
+  `).all(firstId, lastId) as Array<{ id: number; review_id: number; aspect: string }>;
+  const setAspect = db.prepare('UPDATE review_aspects SET aspect = ? WHERE id = ?');
+  for (const aspect of aspects) {
+    const resolved = resolveEntity(aspect.aspect);
+    if (resolved === aspect.aspect) continue;
+    setAspect.run(resolved, aspect.id);
+    insertHistory.run(aspect.review_id, 'aspect', aspect.aspect, resolved, changedAt);
+    changed += 1;
   }
-
-  return null;
+  return changed;
 };
 
-const buildFallbackAnalyses = (mentions: Mention[]): SentimentAnalysis[] =>
-  mentions.map((mention) => ({
-    mentionId: mention.id,
-    sentiment: 'neutral',
-    score: 0.5,
-    entity: 'General'
-  }));
-
-const analyzeBatch = async (mentions: Mention[], retryCount = 0): Promise<BatchAnalysisResult> => {
-  if (!apiKey) {
-    return { results: buildFallbackAnalyses(mentions), stopFurtherAiCalls: true };
-  }
+// Stored labels and normalized text follow the new taxonomy in background jobs.
+const invalidateTaxonomy = (): JobRow => {
+  taxonomyCache = null;
+  // Entity keywords are part of the normalization vocabulary.
+  enqueueMaintenanceJob('renormalize');
+  return enqueueMaintenanceJob('remap');
+};
 
-  const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+// --- PROMPT TEMPLATES ---
+// The Gemini prompt lives in prompt_templates so rules can be changed without a redeploy. Templates use
+// {{brand}}, {{count}}, {{reviews}} and {{taxonomy}}; {{reviews}} is required.
+const PROMPT_VARIABLES = ['brand', 'count', 'reviews', 'taxonomy'] as const;
+type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+const brandName = process.env.BRAND_NAME || 'Kana Coffee';
+
+interface PromptTemplateRow {
+  id: number;
+  name: string;
+  version: number;
+  template: string;
+  notes: string | null;
+  is_active: number;
+  builtin: number;
+  created_at: string;
+  activated_at: string | null;
+}
 
-  // Build reviews list for prompt
-  const reviewsList = mentions.map(m => `ID: ${m.id}\nReview: "${m.content}"`).join('\n\n');
+const DEFAULT_PROMPT_NAME = 'sentiment-classification';
 
-  const prompt = `Analyze sentiment for these ${mentions.length} customer reviews of Kana Coffee. Reviews may be in Indonesian or English.
+const DEFAULT_PROMPT_TEMPLATE = `Analyze sentiment for these {{count}} customer reviews of {{brand}}. Reviews may be in Indonesian or English.
 
-${reviewsList}
+{{reviews}}
 
 SENTIMENT CLASSIFICATION RULES:
 
@@ -285,243 +812,2032 @@ NEUTRAL = Komentar yang bersifat informatif, deskriptif, atau tidak menunjukkan
 Only use neutral when review is purely informational with NO positive or negative indicators.
 
 ENTITY CLASSIFICATION STRICT RULES:
-- "Quality" - rasa, taste, menu, makanan, minuman, food, drink quality, enak (when talking about food/drink taste)
-- "Service" - pelayanan, staff, kasir, waiters, karyawan, customer service, lama, lambat, lelet (waiting time issues)
-- "Price" - harga, mahal, murah, pricing, value, cost
-- "Ambiance" - tempat (place), nyaman (comfortable place), cozy, suasana, interior, decoration, wifi, atmosphere, ruang
-- "Location" - lokasi, parking, accessibility, alamat
-- "General" - only when review covers multiple topics or is too general
-
-CRITICAL RULES:
-- "lelet" alone = NEGATIVE, Service
-- "tempat" = Ambiance (NOT General)
-- "pelayanan" = Service (NOT General or Ambiance)
+Use ONLY these entity names, spelled exactly as written:
+{{taxonomy}}
+
+ASPECTS:
+A review can mention several entities with different sentiment ("kopinya enak tapi pelayanan lelet" = Quality positive + Service negative).
+List every entity the review talks about in "aspects", each with its own sentiment, score and the exact words from the review as "evidence".
+"entity" is the single dominant aspect; "sentiment" and "score" describe the review as a whole.
+
+EXPLANATION:
+"explanation" = one short sentence in Indonesian saying why the review got this sentiment and entity.
+"keywords" = up to 5 exact words or phrases from the review that decided the labels.
+"confidence" = 0.0-1.0, how sure you are of the sentiment label (low for sarcasm, mixed or very short reviews).
+
+EMOTION AND INTENT:
+"emotion" = joy, anger, disappointment, surprise, or none when no clear emotion is expressed.
+"intent" = complaint (reports a problem), suggestion (proposes an improvement), question (asks something), praise (compliments), or other (including plain information).
 
 Score: 0.0-0.3 (very negative), 0.3-0.49 (negative), 0.5 (neutral), 0.51-0.7 (positive), 0.7-1.0 (very positive)
 
 Return ONLY a valid JSON array with NO markdown, one object per review:
 [
-  {"mentionId": "csv-row-1", "sentiment": "positive", "score": 0.8, "entity": "Quality"},
-  {"mentionId": "csv-row-2", "sentiment": "negative", "score": 0.2, "entity": "Service"}
+  {"mentionId": "csv-row-1", "sentiment": "positive", "score": 0.8, "entity": "Quality", "aspects": [{"aspect": "Quality", "sentiment": "positive", "score": 0.8, "evidence": "kopinya enak"}], "explanation": "Pelanggan memuji rasa kopi.", "keywords": ["kopinya enak"], "confidence": 0.9, "emotion": "joy", "intent": "praise"},
+  {"mentionId": "csv-row-2", "sentiment": "negative", "score": 0.3, "entity": "Service", "aspects": [{"aspect": "Quality", "sentiment": "positive", "score": 0.7, "evidence": "rasanya mantap"}, {"aspect": "Service", "sentiment": "negative", "score": 0.2, "evidence": "pelayanan lelet"}], "explanation": "Rasa dipuji, tetapi keluhan pelayanan yang lambat lebih dominan.", "keywords": ["rasanya mantap", "pelayanan lelet"], "confidence": 0.75, "emotion": "disappointment", "intent": "complaint"}
 ]`;
 
+// A changed built-in prompt becomes the next version, and is activated unless a custom prompt is in use.
+if (!db.prepare('SELECT 1 FROM prompt_templates WHERE name = ? AND template = ?').get(DEFAULT_PROMPT_NAME, DEFAULT_PROMPT_TEMPLATE)) {
+  const seededAt = new Date().toISOString();
+  const version = ((db.prepare('SELECT MAX(version) FROM prompt_templates WHERE name = ?').pluck().get(DEFAULT_PROMPT_NAME) as number | null) ?? 0) + 1;
+  const active = db.prepare('SELECT builtin FROM prompt_templates WHERE is_active = 1').get() as { builtin: number } | undefined;
+  const activate = !active || active.builtin === 1;
+  db.transaction(() => {
+    if (activate) db.prepare('UPDATE prompt_templates SET is_active = 0 WHERE is_active = 1').run();
+    db.prepare(`
+      INSERT INTO prompt_templates (name, version, template, notes, builtin, is_active, created_at, activated_at)
+      VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+    `).run(DEFAULT_PROMPT_NAME, version, DEFAULT_PROMPT_TEMPLATE, version === 1 ? 'Initial prompt' : 'Built-in prompt update',
+      activate ? 1 : 0, seededAt, activate ? seededAt : null);
+  })();
+}
+
+const PROMPT_PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+// Returns the problems with a template, or an empty list when it can be activated.
+const validatePromptTemplate = (template: string): string[] => {
+  const used = [...template.matchAll(PROMPT_PLACEHOLDER)].map((match) => match[1].toLowerCase());
+  const problems = used
+    .filter((variable) => !(PROMPT_VARIABLES as readonly string[]).includes(variable))
+    .map((variable) => `Unknown variable {{${variable}}}, expected one of: ${PROMPT_VARIABLES.join(', ')}`);
+  if (!used.includes('reviews')) problems.push('Template must contain {{reviews}}.');
+  return problems;
+};
+
+const renderPromptTemplate = (template: string, variables: Record<PromptVariable, string>): string =>
+  template.replace(PROMPT_PLACEHOLDER, (placeholder, name: string) =>
+    variables[name.toLowerCase() as PromptVariable] ?? placeholder
+  );
+
+const getActivePromptTemplate = (): PromptTemplateRow =>
+  (db.prepare('SELECT * FROM prompt_templates WHERE is_active = 1 ORDER BY activated_at DESC LIMIT 1').get() as PromptTemplateRow | undefined)
+    ?? { id: 0, name: DEFAULT_PROMPT_NAME, version: 0, template: DEFAULT_PROMPT_TEMPLATE, notes: null, is_active: 1, builtin: 1, created_at: '', activated_at: null };
+
+const formatPromptVersion = (template: Pick<PromptTemplateRow, 'name' | 'version'>) => `${template.name}@v${template.version}`;
+
+// --- AI RATE LIMITING ---
+// One token bucket paces every Gemini request (all jobs, repair retries and evaluations), and a daily
+// token budget stops AI calls before the provider starts rejecting them.
+const GEMINI_REQUESTS_PER_MINUTE = Number(process.env.GEMINI_REQUESTS_PER_MINUTE) || 5;
+const GEMINI_TOKENS_PER_DAY = Number(process.env.GEMINI_TOKENS_PER_DAY) || 1_000_000;
+// Output size per review, used to check the budget before a request is sent.
+const ESTIMATED_OUTPUT_TOKENS_PER_REVIEW = 80;
+// Quota estimate for reviews until today's usage gives a real average.
+const DEFAULT_TOKENS_PER_REVIEW = 250;
+
+const geminiRateLimiter = createRateLimiter(GEMINI_REQUESTS_PER_MINUTE);
+
+interface DailyUsage {
+  day: string;
+  request_count: number;
+  review_count: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  rate_limited_count: number;
+  exhausted_at: string | null;
+}
+
+const usageDay = () => new Date().toISOString().slice(0, 10);
+
+const recordAiUsage = db.prepare(`
+  INSERT INTO ai_usage (day, provider, model, request_count, review_count, prompt_tokens, output_tokens, total_tokens, rate_limited_count)
+  VALUES (@day, @provider, @model, 1, @review_count, @prompt_tokens, @output_tokens, @total_tokens, @rate_limited)
+  ON CONFLICT (day, provider, model) DO UPDATE SET
+    request_count = request_count + 1,
+    review_count = review_count + excluded.review_count,
+    prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+    output_tokens = output_tokens + excluded.output_tokens,
+    total_tokens = total_tokens + excluded.total_tokens,
+    rate_limited_count = rate_limited_count + excluded.rate_limited_count
+`);
+
+const trackGeminiUsage = (usage: { review_count: number; prompt_tokens: number; output_tokens: number; total_tokens: number; rate_limited: number }) =>
+  recordAiUsage.run({ day: usageDay(), provider: 'gemini', model: geminiModel, ...usage });
+
+const getDailyUsage = (provider: string, model: string): DailyUsage =>
+  (db.prepare('SELECT * FROM ai_usage WHERE day = ? AND provider = ? AND model = ?').get(usageDay(), provider, model) as DailyUsage | undefined) ?? {
+    day: usageDay(),
+    request_count: 0,
+    review_count: 0,
+    prompt_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    rate_limited_count: 0,
+    exhausted_at: null,
+  };
+
+// The provider reported its daily quota as used up; no more calls until the next UTC day.
+const markGeminiQuotaExhausted = () => {
+  db.prepare(`
+    INSERT INTO ai_usage (day, provider, model, exhausted_at) VALUES (?, 'gemini', ?, ?)
+    ON CONFLICT (day, provider, model) DO UPDATE SET exhausted_at = excluded.exhausted_at
+  `).run(usageDay(), geminiModel, nowIso());
+};
+
+const hasGeminiTokenBudget = (estimatedTokens: number): boolean => {
+  const usage = getDailyUsage('gemini', geminiModel);
+  return !usage.exhausted_at && usage.total_tokens + estimatedTokens <= GEMINI_TOKENS_PER_DAY;
+};
+
+// Reviews are sent in batches of 15; pacing comes from the rate limiter above.
+const BATCH_SIZE = 15;
+// Items with invalid output are asked again in smaller batches, once.
+const REPAIR_BATCH_SIZE = 5;
+
+// --- MODEL OUTPUT VALIDATION ---
+// Each item is checked by validateModelOutput (server/validation.ts). This is the same shape for Gemini's
+// JSON response mode. Ranges are left to the zod check, since not every model honours them in the
+// response schema.
+const sentimentResponseSchema: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      mentionId: { type: SchemaType.STRING },
+      sentiment: { type: SchemaType.STRING, format: 'enum', enum: ['positive', 'neutral', 'negative'] },
+      score: { type: SchemaType.NUMBER },
+      entity: { type: SchemaType.STRING },
+      aspects: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            aspect: { type: SchemaType.STRING },
+            sentiment: { type: SchemaType.STRING, format: 'enum', enum: ['positive', 'neutral', 'negative'] },
+            score: { type: SchemaType.NUMBER },
+            evidence: { type: SchemaType.STRING, nullable: true },
+          },
+          required: ['aspect', 'sentiment', 'score'],
+        },
+      },
+      explanation: { type: SchemaType.STRING },
+      keywords: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+      confidence: { type: SchemaType.NUMBER },
+      emotion: { type: SchemaType.STRING, format: 'enum', enum: [...EMOTIONS] },
+      intent: { type: SchemaType.STRING, format: 'enum', enum: [...INTENTS] },
+    },
+    required: ['mentionId', 'sentiment', 'score', 'entity', 'aspects', 'explanation', 'keywords', 'confidence', 'emotion', 'intent'],
+  },
+};
+
+// Older models reject responseSchema; GEMINI_JSON_MODE=false falls back to parsing free text.
+const useGeminiJsonMode = process.env.GEMINI_JSON_MODE !== 'false';
+
+const analyzeWithGemini = async (mentions: Mention[], retryCount = 0, isRepair = false): Promise<BatchAnalysisResult> => {
+  if (!apiKey) {
+    return { results: buildFallbackAnalyses(mentions), stopFurtherAiCalls: true, usedFallback: true };
+  }
+
+  const model = genAI.getGenerativeModel({
+    model: geminiModel,
+    generationConfig: useGeminiJsonMode ? { responseMimeType: 'application/json', responseSchema: sentimentResponseSchema } : undefined,
+  });
+
+  // Build reviews list for prompt from the same text the cache is keyed on.
+  const reviewsList = mentions.map(m => `ID: ${m.id}\nReview: "${geminiProvider.classifiedText(m)}"`).join('\n\n');
+
+  const prompt = renderPromptTemplate(getActivePromptTemplate().template, {
+    brand: brandName,
+    count: String(mentions.length),
+    reviews: reviewsList,
+    taxonomy: buildEntityPromptRules(getTaxonomy()),
+  });
+
+  const estimatedTokens = Math.ceil(prompt.length / 4) + mentions.length * ESTIMATED_OUTPUT_TOKENS_PER_REVIEW;
+  if (!hasGeminiTokenBudget(estimatedTokens)) {
+    console.warn('Daily Gemini token budget reached. Remaining batches will use fallback sentiment.');
+    return { results: buildFallbackAnalyses(mentions), stopFurtherAiCalls: true, usedFallback: true };
+  }
+
+  await geminiRateLimiter.acquire();
   try {
     const result = await model.generateContent(prompt);
+    const usage = result.response.usageMetadata;
+    trackGeminiUsage({
+      review_count: mentions.length,
+      prompt_tokens: usage?.promptTokenCount ?? 0,
+      output_tokens: usage?.candidatesTokenCount ?? 0,
+      total_tokens: usage?.totalTokenCount ?? estimatedTokens,
+      rate_limited: 0,
+    });
     const text = result.response.text();
     console.log(`[Gemini Batch Response]:`, text.substring(0, 300));
-    
-    // Try to parse as JSON array
-    let parsed: SentimentAnalysis[];
-    try {
-      const cleanText = text.replace(/```json\n?|```\n?/g, '').trim();
-      parsed = JSON.parse(cleanText);
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-    } catch (e) {
-      console.error('Failed to parse batch response, using fallback');
-      return { results: buildFallbackAnalyses(mentions) };
-    }
-    
-    // Ensure all mentions have results
-    const results: SentimentAnalysis[] = mentions.map((mention) => {
-      const found = parsed.find(p => p.mentionId === mention.id);
-      if (!found) {
-        return { mentionId: mention.id, sentiment: 'neutral', score: 0.5, entity: 'General' };
-      }
 
+    const { valid, invalid } = validateModelOutput(text, mentions);
+    if (invalid.length === 0) {
+      console.log(`[Parsed Batch Results]: ${valid.length} reviews analyzed`);
+      return { results: valid, validatedCount: mentions.length, parseFailureCount: 0 };
+    }
+    if (isRepair) {
       return {
-        mentionId: found.mentionId || mention.id,
-        sentiment: normalizeSentiment(found.sentiment),
-        score: typeof found.score === 'number' ? found.score : 0.5,
-        entity: typeof found.entity === 'string' && found.entity.trim() ? found.entity : 'General'
+        results: [...valid, ...buildFallbackAnalyses(invalid)],
+        fallbackMentionIds: invalid.map((mention) => mention.id),
+        usedFallback: valid.length === 0,
       };
-    });
-    
-    console.log(`[Parsed Batch Results]: ${results.length} reviews analyzed`);
-    return { results };
-  } catch (error: any) {
-    const errorDetailsText = JSON.stringify(error?.errorDetails || '').toLowerCase();
-    const isQuotaExhausted =
-      error?.status === 429 && (
-        errorDetailsText.includes('perday') ||
-        errorDetailsText.includes('quota exceeded') ||
-        errorDetailsText.includes('freetier')
-      );
-
-    if (isQuotaExhausted) {
-      console.warn('Gemini quota exhausted. Remaining batches will use fallback sentiment to avoid long upload wait.');
-      return { results: buildFallbackAnalyses(mentions), stopFurtherAiCalls: true };
     }
 
-    // Handle rate limit errors with retry
-    if (error?.status === 429 && retryCount < 3) {
-      const waitTime = Math.pow(2, retryCount) * 15000; // 15s, 30s, 60s
-      console.log(`Rate limit hit, retrying batch in ${waitTime/1000}s...`);
-      await sleep(waitTime);
-      return analyzeBatch(mentions, retryCount + 1);
+    console.log(`[Gemini] ${invalid.length}/${mentions.length} items invalid, retrying them in batches of ${REPAIR_BATCH_SIZE}`);
+    const results = [...valid];
+    const fallbackMentionIds: string[] = [];
+    let stopFurtherAiCalls = false;
+    for (let i = 0; i < invalid.length; i += REPAIR_BATCH_SIZE) {
+      const chunk = invalid.slice(i, i + REPAIR_BATCH_SIZE);
+      const repaired: BatchAnalysisResult = stopFurtherAiCalls
+        ? { results: buildFallbackAnalyses(chunk), usedFallback: true }
+        : await analyzeWithGemini(chunk, 0, true);
+      stopFurtherAiCalls ||= Boolean(repaired.stopFurtherAiCalls);
+      results.push(...repaired.results);
+      fallbackMentionIds.push(...(repaired.usedFallback ? chunk.map((mention) => mention.id) : repaired.fallbackMentionIds ?? []));
+    }
+
+    console.log(`[Parsed Batch Results]: ${results.length - fallbackMentionIds.length} reviews analyzed, ${fallbackMentionIds.length} fallback`);
+    return {
+      results,
+      fallbackMentionIds,
+      usedFallback: fallbackMentionIds.length === mentions.length,
+      stopFurtherAiCalls,
+      validatedCount: mentions.length,
+      parseFailureCount: invalid.length,
+    };
+  } catch (error: any) {
+    if (error?.status === 429) {
+      trackGeminiUsage({ review_count: 0, prompt_tokens: 0, output_tokens: 0, total_tokens: 0, rate_limited: 1 });
+
+      if (isDailyQuotaError(error)) {
+        markGeminiQuotaExhausted();
+        console.warn('Gemini quota exhausted. Remaining batches will use fallback sentiment to avoid long upload wait.');
+        return { results: buildFallbackAnalyses(mentions), stopFurtherAiCalls: true, usedFallback: true };
+      }
+
+      // Honour Retry-After when the API sends one, otherwise back off 15s, 30s, 60s.
+      if (retryCount < 3) {
+        const waitTime = getRetryDelayMs(error) ?? Math.pow(2, retryCount) * 15000;
+        console.log(`Rate limit hit, retrying batch in ${waitTime / 1000}s...`);
+        geminiRateLimiter.pauseFor(waitTime);
+        return analyzeWithGemini(mentions, retryCount + 1, isRepair);
+      }
     }
     console.error(`Error analyzing batch:`, error);
-    return { results: buildFallbackAnalyses(mentions) };
+    return { results: buildFallbackAnalyses(mentions), usedFallback: true };
   }
 };
 
 
-// --- API ENDPOINTS ---
-
-app.get('/api/health', (_req, res) => {
-  res.status(200).json({ status: 'ok' });
-});
+// --- SENTIMENT PROVIDERS ---
+// Every classifier implements the same batch contract so the upload pipeline does not care
+// whether labels come from Gemini, the offline lexicon rules or the deterministic mock.
+interface SentimentProvider {
+  name: string;
+  model: string;
+  // Whether calls go through the shared rate limiter and count against the daily quota.
+  rateLimited: boolean;
+  // Whether labels depend on the active prompt template (rule-based providers ignore it).
+  usesPrompt: boolean;
+  // The text the provider classifies; results are cached under exactly this text.
+  classifiedText: (mention: Mention) => string;
+  analyzeBatch: (mentions: Mention[]) => Promise<BatchAnalysisResult>;
+}
 
-app.post('/api/upload-csv', async (req, res) => {
-  console.log('Received CSV upload request (streaming).');
-  const platform = (req.query.platform as string) || 'CSV';
+const geminiProvider: SentimentProvider = {
+  name: 'gemini',
+  model: geminiModel,
+  rateLimited: true,
+  usesPrompt: true,
+  // Gemini reads slang and emoji itself, so it gets the raw content.
+  classifiedText: (mention) => mention.content,
+  analyzeBatch: (mentions) => analyzeWithGemini(mentions),
+};
 
-  // Set a long timeout for this request
-  req.setTimeout(10 * 60 * 1000); // 10 minutes
+// Rebuilt whenever the taxonomy changes, since entity keywords are part of the normalization vocabulary.
+let lexiconVocabulary: { taxonomy: TaxonomyEntry[]; terms: Set<string> } | null = null;
 
-  const mentionsToAnalyze: Mention[] = [];
+const getLexiconVocabulary = (): Set<string> => {
+  const taxonomy = getTaxonomy();
+  if (lexiconVocabulary?.taxonomy !== taxonomy) {
+    lexiconVocabulary = { taxonomy, terms: buildLexiconVocabulary(taxonomy) };
+  }
+  return lexiconVocabulary.terms;
+};
 
-  const csvStream = req.pipe(new PassThrough());
+const lexiconProvider: SentimentProvider = {
+  name: 'lexicon',
+  model: 'lexicon-id-en-v1',
+  rateLimited: false,
+  usesPrompt: false,
+  classifiedText: (mention) => analysisText(mention),
+  analyzeBatch: async (mentions) => ({
+    results: mentions.map((mention) => {
+      const overall = classifyWithLexicon(analysisText(mention), getTaxonomy());
+      return {
+        mentionId: mention.id,
+        ...overall,
+        aspects: finalizeAspects(extractLexiconAspects(analysisText(mention), getTaxonomy()), overall),
+      };
+    }),
+  }),
+};
 
-  let rowCount = 0;
+const mockProvider: SentimentProvider = {
+  name: 'mock',
+  model: 'mock-v1',
+  rateLimited: false,
+  usesPrompt: false,
+  classifiedText: (mention) => analysisText(mention),
+  analyzeBatch: async (mentions) => ({
+    results: mentions.map((mention) => {
+      const overall = classifyWithMock(analysisText(mention), getTaxonomy());
+      return { mentionId: mention.id, ...overall, aspects: finalizeAspects([], overall) };
+    }),
+  }),
+};
 
-  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
-    header: true,
-    skipEmptyLines: true,
-  });
+const SENTIMENT_PROVIDERS: Record<string, SentimentProvider> = {
+  gemini: geminiProvider,
+  lexicon: lexiconProvider,
+  mock: mockProvider,
+};
 
-  csvStream.pipe(parser);
+// SENTIMENT_PROVIDER picks the classifier explicitly; otherwise Gemini is used when a key is configured.
+const resolveSentimentProvider = (): SentimentProvider => {
+  const configured = (process.env.SENTIMENT_PROVIDER || '').trim().toLowerCase();
+  if (configured) {
+    if (SENTIMENT_PROVIDERS[configured]) return SENTIMENT_PROVIDERS[configured];
+    console.warn(`⚠️  Unknown SENTIMENT_PROVIDER "${configured}", expected one of: ${Object.keys(SENTIMENT_PROVIDERS).join(', ')}`);
+  }
+  return apiKey ? geminiProvider : lexiconProvider;
+};
 
-  parser.on('data', (row: any) => {
-    rowCount++;
-    // Prepare the mention object
-    const normalizedDate = getRowDate(row) || new Date().toISOString().slice(0, 10);
-    const content = row.content || row.text || row.Review || row.comment || row.caption || '';
-    
-    if (content) {
-      const mention = {
-        id: `csv-row-${rowCount}`,
-        content,
-        date: normalizedDate,
-        source: platform,
-      };
-      mentionsToAnalyze.push(mention);
-    }
-  });
+const sentimentProvider = resolveSentimentProvider();
+console.log(`Sentiment provider: ${sentimentProvider.name} (${sentimentProvider.model})`);
 
-  parser.on('end', async () => {
-    try {
-      console.log(`CSV parsing complete. Found ${mentionsToAnalyze.length} valid rows. Starting batch analysis...`);
-      
-      // Process reviews in batches (15 reviews per batch, 5 batches per minute = 75 reviews/minute)
-      const BATCH_SIZE = 15;
-      const analyses: SentimentAnalysis[] = [];
-      let skipAiForRemainingBatches = false;
-      
-      for (let i = 0; i < mentionsToAnalyze.length; i += BATCH_SIZE) {
-        const batch = mentionsToAnalyze.slice(i, i + BATCH_SIZE);
-        const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-        const totalBatches = Math.ceil(mentionsToAnalyze.length / BATCH_SIZE);
-
-        if (skipAiForRemainingBatches) {
-          analyses.push(...buildFallbackAnalyses(batch));
-          continue;
-        }
-        
-        console.log(`Analyzing batch ${batchNum}/${totalBatches} (${batch.length} reviews)...`);
-        const batchResult = await analyzeBatch(batch);
-        analyses.push(...batchResult.results);
-
-        if (batchResult.stopFurtherAiCalls) {
-          skipAiForRemainingBatches = true;
-          continue;
-        }
-        
-        // Add delay between batches to stay within rate limit (12 seconds = 5 batches per minute)
-        if (i + BATCH_SIZE < mentionsToAnalyze.length) {
-          console.log(`Waiting 12s before next batch...`);
-          await sleep(12000);
-        }
-      }
-      
-      console.log(`Analysis complete. Preparing to store ${analyses.length} results.`);
-      
-      const reviewsToStore = mentionsToAnalyze.map((mention) => {
-        const analysis = analyses.find(a => a.mentionId === mention.id);
-        return {
-          platform: mention.source,
-          content: mention.content,
-          date: mention.date,
-          sentiment: analysis?.sentiment || 'neutral',
-          entity: analysis?.entity || 'General',
-          score: analysis?.score || 0,
-        };
-      });
-      
-      console.log('Storing results in the database...');
-      const insert = db.prepare(
-        'INSERT INTO reviews (platform, content, date, sentiment, entity, score) VALUES (@platform, @content, @date, @sentiment, @entity, @score)'
-      );
-      const transaction = db.transaction((items) => {
-        for (const item of items) {
-          try {
-            insert.run(item);
-          } catch(e) {
-            console.error('Failed to insert item:', item, e);
-          }
-        }
-      });
-      
-      transaction(reviewsToStore);
-      console.log('Successfully stored reviews.');
+const analyzeBatch = (mentions: Mention[]): Promise<BatchAnalysisResult> => sentimentProvider.analyzeBatch(mentions);
 
-      const message = skipAiForRemainingBatches
-        ? `Upload selesai: ${reviewsToStore.length} reviews disimpan. Sebagian analisis memakai fallback karena kuota Gemini habis.`
-        : `Successfully analyzed and stored ${reviewsToStore.length} reviews.`;
+// --- TEXT NORMALIZATION ---
+// Reviews are normalized before analysis: slang and abbreviations from the editable dictionary are
+// expanded, stretched letters collapsed ("enakkk"), emoji mapped to words and affixes stripped
+// ("kopinya" -> "kopi"). Punctuation is kept, since clause splitting and question detection rely on it.
+interface SlangEntry {
+  term: string;
+  replacement: string;
+}
 
-      res.status(200).json({ message });
-    } catch (error) {
-      console.error('--- ERROR DURING STREAM COMPLETION ---', error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: 'An unexpected error occurred on the server during stream processing.' });
-      }
-    }
-  });
+const DEFAULT_SLANG: Record<string, string> = {
+  gajelas: 'tidak jelas', gaje: 'tidak jelas', ga: 'tidak', gak: 'tidak', gk: 'tidak', nggak: 'tidak', ngga: 'tidak',
+  enggak: 'tidak', engga: 'tidak', kagak: 'tidak', tdk: 'tidak', bgt: 'banget', bngt: 'banget', yg: 'yang',
+  dgn: 'dengan', utk: 'untuk', krn: 'karena', karna: 'karena', tp: 'tapi', tpi: 'tapi', sdh: 'sudah', udh: 'sudah',
+  udah: 'sudah', blm: 'belum', bs: 'bisa', jg: 'juga', aja: 'saja', lg: 'lagi', bnr: 'benar', bener: 'benar',
+  emg: 'memang', emang: 'memang', org: 'orang', tmpt: 'tempat', tmpat: 'tempat', kalo: 'kalau', klo: 'kalau',
+  skrg: 'sekarang', sm: 'sama', dr: 'dari', dri: 'dari', dtg: 'datang', dateng: 'datang', pake: 'pakai',
+  trs: 'terus', brp: 'berapa', kpn: 'kapan', gmn: 'gimana', knp: 'kenapa', kmna: 'kemana', bgs: 'bagus',
+  mantul: 'mantap', mantab: 'mantap', mantep: 'mantap', lemot: 'lambat', mksh: 'terima kasih',
+  makasih: 'terima kasih', rekomen: 'rekomendasi', recomended: 'recommended', recommend: 'recommended',
+  '👍': 'bagus', '👌': 'oke', '❤': 'suka', '😍': 'suka', '🥰': 'suka', '😋': 'enak', '🤤': 'enak', '🔥': 'mantap',
+  '💯': 'mantap', '😊': 'senang', '😁': 'senang', '😄': 'senang', '☺': 'senang', '🙏': 'terima kasih',
+  '😡': 'marah', '😠': 'marah', '🤬': 'marah', '😤': 'kesal', '😞': 'kecewa', '😔': 'kecewa', '😒': 'kecewa',
+  '😢': 'sedih', '😭': 'sedih', '👎': 'jelek', '🤮': 'jelek', '😮': 'kaget', '😲': 'kaget', '😱': 'kaget', '☕': 'kopi',
+};
 
-  parser.on('error', (error) => {
-    console.error('--- CSV PARSING STREAM ERROR ---', error);
-    if (!res.headersSent) {
-      res.status(400).json({ error: 'Failed to parse CSV stream.', details: error.message });
+const seedSlang = db.prepare(`
+  INSERT INTO slang_dictionary (term, replacement, updated_at) VALUES (?, ?, ?)
+  ON CONFLICT(term) DO NOTHING
+`);
+if ((db.prepare('SELECT COUNT(*) FROM slang_dictionary').pluck().get() as number) === 0) {
+  db.transaction(() => {
+    for (const [term, replacement] of Object.entries(DEFAULT_SLANG)) {
+      seedSlang.run(term, replacement, new Date().toISOString());
     }
-  });
+  })();
+}
 
-  req.on('error', (error) => {
-    console.error('--- REQUEST STREAM ERROR ---', error);
-    if (!res.headersSent) {
-      res.status(500).json({ error: 'An error occurred with the request stream.' });
-    }
-  });
-});
+let slangCache: Map<string, string> | null = null;
 
-// Other endpoints remain the same
-app.get('/api/data', (req, res) => {
-  const sentimentFilter = req.query.sentiment as string;
-  let whereClause = '';
-  let params = [];
+const getSlangDictionary = (): Map<string, string> => {
+  if (!slangCache) {
+    const rows = db.prepare('SELECT term, replacement FROM slang_dictionary').all() as SlangEntry[];
+    slangCache = new Map(rows.map((row) => [row.term.toLowerCase(), row.replacement.toLowerCase()]));
+  }
+  return slangCache;
+};
 
-  if (['positive', 'negative', 'neutral'].includes(sentimentFilter)) {
-    whereClause = 'WHERE sentiment = ?';
-    params.push(sentimentFilter);
+// Words an affix may be stripped down to: everything the lexicon matches on plus the dictionary's own output.
+let normalizationVocabulary: { lexicon: Set<string>; slang: Map<string, string>; terms: Set<string> } | null = null;
+
+const getNormalizationVocabulary = (): Set<string> => {
+  const lexicon = getLexiconVocabulary();
+  const slang = getSlangDictionary();
+  if (normalizationVocabulary?.lexicon !== lexicon || normalizationVocabulary.slang !== slang) {
+    normalizationVocabulary = {
+      lexicon,
+      slang,
+      terms: new Set([
+        ...lexicon,
+        ...NEGATION_TERMS,
+        ...INTENSIFIER_TERMS,
+        ...CONTRAST_TERMS,
+        ...QUESTION_TERMS,
+        ...[...slang.values()].flatMap((replacement) => replacement.split(' ')),
+      ]),
+    };
   }
+  return normalizationVocabulary.terms;
+};
 
-  const reviews = db.prepare(`SELECT * FROM reviews ${whereClause} ORDER BY date DESC`).all(params);
-  
-  const summaryStmt = `
-    SELECT
-      (SELECT COUNT(*) FROM reviews WHERE sentiment = 'positive') as total_positive,
-      (SELECT COUNT(*) FROM reviews WHERE sentiment = 'negative') as total_negative,
+const normalizeText = (text: string): string => {
+  const slang = getSlangDictionary();
+  const vocabulary = getNormalizationVocabulary();
+  return normalizeWithDictionary(text, slang, (candidate) => vocabulary.has(candidate) || slang.has(candidate));
+};
+
+// Mentions built outside a job (or before normalization existed) fall back to their raw content.
+const analysisText = (mention: Mention): string => mention.normalizedContent ?? mention.content;
+
+interface NormalizationRow {
+  id: number;
+  content: string | null;
+  normalized_content: string | null;
+}
+
+// Brings stored normalized text in line with the dictionary and taxonomy; returns how many reviews changed.
+const renormalizeReviews = (rows: NormalizationRow[]): number => {
+  const setNormalized = db.prepare('UPDATE reviews SET normalized_content = ? WHERE id = ?');
+  let changed = 0;
+  db.transaction(() => {
+    for (const row of rows) {
+      const normalized = normalizeText(row.content ?? '');
+      if (normalized === row.normalized_content) continue;
+      setNormalized.run(normalized, row.id);
+      changed += 1;
+    }
+  })();
+  return changed;
+};
+
+const invalidateSlangDictionary = () => {
+  slangCache = null;
+  return enqueueMaintenanceJob('renormalize');
+};
+
+// Reviews stored before normalization existed; every later row is normalized on insert.
+renormalizeReviews(db.prepare('SELECT id, content, normalized_content FROM reviews WHERE normalized_content IS NULL').all() as NormalizationRow[]);
+
+// --- ANALYSIS CACHE ---
+// Prompt version recorded with every label, or null for providers that do not use a prompt.
+const getCurrentPromptVersion = (): string | null =>
+  sentimentProvider.usesPrompt ? formatPromptVersion(getActivePromptTemplate()) : null;
+
+// The taxonomy is part of the prompt and the lexicon rules, so editing it invalidates cached results,
+// as does activating another prompt version.
+const getAnalysisVersion = (): string => {
+  const taxonomyHash = createHash('sha1').update(JSON.stringify(getTaxonomy())).digest('hex').slice(0, 12);
+  return `${sentimentProvider.name}:${sentimentProvider.model}:${getCurrentPromptVersion() ?? 'rules'}:${taxonomyHash}`;
+};
+
+// Keyed on the exact text the provider was given: Gemini sees punctuation and emoji, so reviews that only
+// differ there are separate entries.
+const buildAnalysisCacheKey = (mention: Mention, analysisVersion: string): string =>
+  createHash('sha1').update(`${analysisVersion}|${sentimentProvider.classifiedText(mention)}`).digest('hex');
+
+const findCachedAnalysis = db.prepare('SELECT sentiment, score, entity, aspects, explanation, keywords, confidence, emotion, intent FROM analysis_cache WHERE cache_key = ?');
+const touchCachedAnalysis = db.prepare('UPDATE analysis_cache SET hit_count = hit_count + 1, last_used_at = ? WHERE cache_key = ?');
+const storeCachedAnalysis = db.prepare(`
+  INSERT INTO analysis_cache (cache_key, analysis_version, sentiment, score, entity, aspects, explanation, keywords, confidence, emotion, intent, created_at, last_used_at)
+  VALUES (@cache_key, @analysis_version, @sentiment, @score, @entity, @aspects, @explanation, @keywords, @confidence, @emotion, @intent, @created_at, @created_at)
+  ON CONFLICT(cache_key) DO UPDATE SET sentiment = excluded.sentiment, score = excluded.score, entity = excluded.entity,
+    aspects = excluded.aspects, explanation = excluded.explanation, keywords = excluded.keywords,
+    confidence = excluded.confidence, emotion = excluded.emotion, intent = excluded.intent, last_used_at = excluded.last_used_at
+`);
+
+const lookupCachedAnalysis = (mention: Mention, analysisVersion: string): SentimentAnalysis | null => {
+  const cacheKey = buildAnalysisCacheKey(mention, analysisVersion);
+  const row = findCachedAnalysis.get(cacheKey) as
+    { sentiment: SentimentAnalysis['sentiment']; score: number; entity: string; aspects: string; explanation: string | null; keywords: string | null; confidence: number | null; emotion: Emotion | null; intent: Intent | null } | undefined;
+  if (!row) return null;
+  touchCachedAnalysis.run(nowIso(), cacheKey);
+  return {
+    mentionId: mention.id,
+    sentiment: row.sentiment,
+    score: row.score,
+    entity: row.entity,
+    aspects: safeJSONParse<AspectSentiment[]>(row.aspects, []),
+    explanation: row.explanation,
+    keywords: safeJSONParse<string[]>(row.keywords, []),
+    confidence: row.confidence,
+    emotion: row.emotion,
+    intent: row.intent,
+  };
+};
+
+// Only real provider answers are cached; fallback labels would otherwise stick after the quota resets.
+const cacheAnalyses = (mentions: Mention[], results: SentimentAnalysis[], analysisVersion: string) => {
+  for (const mention of mentions) {
+    const analysis = results.find((result) => result.mentionId === mention.id);
+    if (!analysis) continue;
+    storeCachedAnalysis.run({
+      cache_key: buildAnalysisCacheKey(mention, analysisVersion),
+      analysis_version: analysisVersion,
+      sentiment: analysis.sentiment,
+      score: analysis.score,
+      entity: analysis.entity,
+      aspects: JSON.stringify(analysis.aspects),
+      explanation: analysis.explanation,
+      keywords: JSON.stringify(analysis.keywords),
+      confidence: analysis.confidence,
+      emotion: analysis.emotion,
+      intent: analysis.intent,
+      created_at: nowIso(),
+    });
+  }
+};
+
+// --- BACKGROUND JOBS ---
+// Uploads are parsed synchronously, then analyzed batch by batch in a persisted job so the
+// HTTP request returns immediately and progress survives a dropped connection or restart.
+type JobType = 'upload' | 'reanalyze' | 'evaluate' | 'renormalize' | 'remap';
+type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+type AnalysisSource = 'ai' | 'cache' | 'fallback' | 'manual';
+
+interface JobRow {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  upload_id: number | null;
+  platform: string | null;
+  file_name: string | null;
+  payload: string | null;
+  total_rows: number;
+  processed_rows: number;
+  total_batches: number;
+  completed_batches: number;
+  ai_count: number;
+  fallback_count: number;
+  cache_count: number;
+  validated_count: number;
+  parse_failure_count: number;
+  duplicate_mode: DuplicateMode;
+  new_count: number;
+  duplicate_count: number;
+  updated_count: number;
+  message: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  run_started_at: string | null;
+  run_start_batches: number;
+  updated_at: string | null;
+  finished_at: string | null;
+}
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const nowIso = () => new Date().toISOString();
+
+const getJob = (id: string): JobRow | undefined =>
+  db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+
+const isJobFinished = (job: JobRow) => job.status === 'completed' || job.status === 'failed';
+
+const estimateRemainingSeconds = (job: JobRow): number | null => {
+  const runBatches = job.completed_batches - job.run_start_batches;
+  if (job.status !== 'running' || !job.run_started_at || runBatches <= 0) return null;
+  const elapsedMs = Date.now() - new Date(job.run_started_at).getTime();
+  const remainingBatches = job.total_batches - job.completed_batches;
+  return Math.max(0, Math.round((elapsedMs / runBatches) * remainingBatches / 1000));
+};
+
+const serializeJob = (job: JobRow) => {
+  const { payload, ...rest } = job;
+  return { ...rest, eta_seconds: estimateRemainingSeconds(job) };
+};
+
+const updateJob = (id: string, fields: Partial<Omit<JobRow, 'id'>>) => {
+  const entries = Object.entries({ ...fields, updated_at: nowIso() });
+  const assignments = entries.map(([key]) => `${key} = @${key}`).join(', ');
+  db.prepare(`UPDATE jobs SET ${assignments} WHERE id = @id`).run({ ...Object.fromEntries(entries), id });
+  const job = getJob(id);
+  if (job) jobEvents.emit(id, job);
+  return job;
+};
+
+const createJob = ({ type, uploadId, platform, fileName, mentions, duplicateMode = 'skip', duplicateCount = 0 }: {
+  type: JobType;
+  uploadId: number | null;
+  platform: string | null;
+  fileName: string | null;
+  mentions: Mention[];
+  duplicateMode?: DuplicateMode;
+  duplicateCount?: number;
+}): JobRow => {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO jobs (id, type, status, upload_id, platform, file_name, payload, total_rows, total_batches, duplicate_mode, duplicate_count, created_at, updated_at)
+    VALUES (@id, @type, 'queued', @uploadId, @platform, @fileName, @payload, @totalRows, @totalBatches, @duplicateMode, @duplicateCount, @createdAt, @createdAt)
+  `).run({
+    id,
+    type,
+    uploadId,
+    platform,
+    fileName,
+    duplicateMode,
+    duplicateCount,
+    payload: JSON.stringify(mentions),
+    totalRows: mentions.length,
+    totalBatches: Math.ceil(mentions.length / BATCH_SIZE),
+    createdAt: nowIso(),
+  });
+  return getJob(id)!;
+};
+
+const insertReview = db.prepare(`
+  INSERT INTO reviews (platform, content, normalized_content, date, date_is_fallback, sentiment, entity, score, analysis_source, analysis_model, prompt_version, explanation, keywords, confidence, emotion, intent, fingerprint, upload_id, author, reach, rating, source_url, external_id)
+  VALUES (@platform, @content, @normalized_content, @date, @date_is_fallback, @sentiment, @entity, @score, @analysis_source, @analysis_model, @prompt_version, @explanation, @keywords, @confidence, @emotion, @intent, @fingerprint, @upload_id, @author, @reach, @rating, @source_url, @external_id)
+`);
+const findReviewIdByFingerprint = db.prepare('SELECT id FROM reviews WHERE fingerprint = ?').pluck();
+const overwriteReview = db.prepare(`
+  UPDATE reviews
+  SET platform = @platform, content = @content, normalized_content = @normalized_content,
+      -- A dateless re-upload keeps the day the review was first imported.
+      date = CASE WHEN @date_is_fallback = 1 THEN date ELSE @date END,
+      date_is_fallback = CASE WHEN @date_is_fallback = 1 THEN date_is_fallback ELSE 0 END,
+      sentiment = CASE WHEN analysis_source = 'manual' THEN sentiment ELSE @sentiment END,
+      entity = CASE WHEN analysis_source = 'manual' THEN entity ELSE @entity END,
+      score = CASE WHEN analysis_source = 'manual' THEN score ELSE @score END,
+      analysis_model = CASE WHEN analysis_source = 'manual' THEN analysis_model ELSE @analysis_model END,
+      prompt_version = CASE WHEN analysis_source = 'manual' THEN prompt_version ELSE @prompt_version END,
+      explanation = CASE WHEN analysis_source = 'manual' THEN explanation ELSE @explanation END,
+      keywords = CASE WHEN analysis_source = 'manual' THEN keywords ELSE @keywords END,
+      confidence = CASE WHEN analysis_source = 'manual' THEN confidence ELSE @confidence END,
+      emotion = CASE WHEN analysis_source = 'manual' THEN emotion ELSE @emotion END,
+      intent = CASE WHEN analysis_source = 'manual' THEN intent ELSE @intent END,
+      analysis_source = CASE WHEN analysis_source = 'manual' THEN analysis_source ELSE @analysis_source END,
+      author = @author, reach = @reach, rating = @rating, source_url = @source_url,
+      external_id = @external_id, uploaded_at = datetime('now')
+  WHERE id = @id
+`);
+// Manual corrections always win: neither re-analysis nor an overwriting re-upload touches their labels.
+const updateReviewAnalysis = db.prepare(`
+  UPDATE reviews
+  SET normalized_content = @normalized_content, sentiment = @sentiment, entity = @entity, score = @score,
+      analysis_source = @analysis_source, analysis_model = @analysis_model, prompt_version = @prompt_version,
+      explanation = @explanation, keywords = @keywords, confidence = @confidence, emotion = @emotion, intent = @intent
+  WHERE id = @id AND analysis_source IS NOT 'manual'
+`);
+const isManualReview = db.prepare(`SELECT analysis_source = 'manual' FROM reviews WHERE id = ?`).pluck();
+const deleteReviewAspects = db.prepare('DELETE FROM review_aspects WHERE review_id = ?');
+const insertReviewAspect = db.prepare(`
+  INSERT INTO review_aspects (review_id, aspect, sentiment, score, evidence)
+  VALUES (@review_id, @aspect, @sentiment, @score, @evidence)
+`);
+
+const replaceReviewAspects = (reviewId: number | bigint, aspects: AspectSentiment[]) => {
+  deleteReviewAspects.run(reviewId);
+  for (const aspect of aspects) {
+    insertReviewAspect.run({ review_id: reviewId, ...aspect });
+  }
+};
+
+const refreshUploadAnalysisCounts = db.prepare(`
+  UPDATE uploads
+  SET ai_count = (SELECT COUNT(*) FROM reviews WHERE reviews.upload_id = uploads.id AND analysis_source = 'ai'),
+      cache_count = (SELECT COUNT(*) FROM reviews WHERE reviews.upload_id = uploads.id AND analysis_source = 'cache'),
+      fallback_count = (SELECT COUNT(*) FROM reviews WHERE reviews.upload_id = uploads.id AND analysis_source = 'fallback')
+  WHERE id = ?
+`);
+
+// A re-analysis may cover only part of an upload (or several uploads), and overwritten reviews stay with
+// the upload that first stored them, so the AI/cache/fallback split of every upload owning a touched
+// review is recounted from its stored reviews rather than taken from the job.
+const syncUploadCounts = (job: JobRow) => {
+  const mentions = JSON.parse(job.payload || '[]') as Mention[];
+  const uploadIds = new Set<number>();
+  const addOwner = (uploadId: number | null | undefined) => {
+    if (typeof uploadId === 'number') uploadIds.add(uploadId);
+  };
+
+  if (job.type === 'upload') {
+    if (job.upload_id === null) return;
+    db.prepare(`
+      UPDATE uploads
+      SET new_count = @new_count, duplicate_count = @duplicate_count, updated_count = @updated_count,
+          validated_count = @validated_count, parse_failure_count = @parse_failure_count
+      WHERE id = @upload_id
+    `).run(job);
+    const findOwner = db.prepare('SELECT upload_id FROM reviews WHERE fingerprint = ?').pluck();
+    mentions.forEach((mention) => addOwner(findOwner.get(mention.fingerprint) as number | null | undefined));
+  } else {
+    const findOwner = db.prepare('SELECT upload_id FROM reviews WHERE id = ?').pluck();
+    mentions.forEach((mention) => {
+      if (typeof mention.reviewId === 'number') addOwner(findOwner.get(mention.reviewId) as number | null | undefined);
+    });
+  }
+  addOwner(job.upload_id);
+  uploadIds.forEach((uploadId) => refreshUploadAnalysisCounts.run(uploadId));
+};
+
+interface AnalyzedMention {
+  mention: Mention;
+  sentiment: SentimentAnalysis['sentiment'];
+  entity: string;
+  score: number;
+  aspects: AspectSentiment[];
+  explanation: string | null;
+  keywords: string[];
+  confidence: number | null;
+  emotion: Emotion | null;
+  intent: Intent | null;
+  source: AnalysisSource;
+  // NULL for fallback labels, which no model produced.
+  model: string | null;
+  promptVersion: string | null;
+}
+
+type JobCounters = Pick<JobRow, 'new_count' | 'duplicate_count' | 'updated_count'>;
+
+// Shared batch loop for every analysis job: analyzes the payload, hands each batch to `storeBatch`
+// and records progress in the same transaction so a restarted job resumes after the last stored batch.
+// Evaluations and re-analysis pass `useCache: false` so they get what the provider answers today.
+const runAnalysisJob = async (
+  job: JobRow,
+  storeBatch: (items: AnalyzedMention[], counters: JobCounters) => void,
+  { useCache = true }: { useCache?: boolean } = {}
+): Promise<JobRow> => {
+  const mentions: Mention[] = (JSON.parse(job.payload || '[]') as Mention[])
+    .map((mention) => ({ ...mention, normalizedContent: normalizeText(mention.content) }));
+  let {
+    processed_rows: processedRows,
+    completed_batches: completedBatches,
+    ai_count: aiCount,
+    fallback_count: fallbackCount,
+    cache_count: cacheCount,
+    validated_count: validatedCount,
+    parse_failure_count: parseFailureCount,
+  } = job;
+  const counters: JobCounters = {
+    new_count: job.new_count,
+    duplicate_count: job.duplicate_count,
+    updated_count: job.updated_count,
+  };
+  let skipAiForRemainingBatches = false;
+
+  updateJob(job.id, {
+    status: 'running',
+    started_at: job.started_at ?? nowIso(),
+    run_started_at: nowIso(),
+    run_start_batches: completedBatches,
+  });
+
+  for (let i = processedRows; i < mentions.length; i += BATCH_SIZE) {
+    const batch = mentions.slice(i, i + BATCH_SIZE);
+    const analysisVersion = getAnalysisVersion();
+    const promptVersion = getCurrentPromptVersion();
+    const cachedResults: SentimentAnalysis[] = [];
+    const uncached: Mention[] = [];
+    for (const mention of batch) {
+      const cached = useCache ? lookupCachedAnalysis(mention, analysisVersion) : null;
+      if (cached) {
+        cachedResults.push(cached);
+      } else {
+        uncached.push(mention);
+      }
+    }
+
+    let batchResult: BatchAnalysisResult = { results: [] };
+    if (uncached.length === 0) {
+      console.log(`[Job ${job.id}] Batch ${completedBatches + 1}/${job.total_batches} served entirely from cache`);
+    } else if (skipAiForRemainingBatches) {
+      batchResult = { results: buildFallbackAnalyses(uncached), usedFallback: true };
+    } else {
+      console.log(`[Job ${job.id}] Analyzing batch ${completedBatches + 1}/${job.total_batches} (${uncached.length} reviews, ${cachedResults.length} cached)...`);
+      batchResult = await analyzeBatch(uncached);
+      skipAiForRemainingBatches = Boolean(batchResult.stopFurtherAiCalls);
+    }
+    const calledProvider = uncached.length > 0 && !batchResult.usedFallback;
+    const fallbackIds = new Set(batchResult.usedFallback ? uncached.map((mention) => mention.id) : batchResult.fallbackMentionIds);
+
+    const analyzed = batch.map((mention): AnalyzedMention => {
+      const cached = cachedResults.find(a => a.mentionId === mention.id);
+      const analysis = cached || batchResult.results.find(a => a.mentionId === mention.id);
+      const source: AnalysisSource = cached ? 'cache' : fallbackIds.has(mention.id) ? 'fallback' : 'ai';
+      // Labels are validated here for every provider, so nothing outside the taxonomy is stored.
+      const overall = {
+        sentiment: analysis?.sentiment || 'neutral',
+        entity: resolveEntity(analysis?.entity),
+        score: analysis?.score || 0,
+      };
+      const aspects = (analysis?.aspects || []).map((aspect) => ({ ...aspect, aspect: resolveEntity(aspect.aspect) }));
+      return {
+        mention,
+        ...overall,
+        aspects: finalizeAspects(aspects, overall),
+        explanation: analysis?.explanation ?? null,
+        keywords: analysis?.keywords ?? [],
+        confidence: analysis?.confidence ?? null,
+        emotion: analysis?.emotion ?? null,
+        intent: analysis?.intent ?? null,
+        source,
+        model: source === 'fallback' ? null : sentimentProvider.model,
+        promptVersion: source === 'fallback' ? null : promptVersion,
+      };
+    });
+
+    processedRows += batch.length;
+    completedBatches += 1;
+    cacheCount += cachedResults.length;
+    fallbackCount += fallbackIds.size;
+    aiCount += uncached.length - fallbackIds.size;
+    validatedCount += batchResult.validatedCount ?? 0;
+    parseFailureCount += batchResult.parseFailureCount ?? 0;
+
+    db.transaction(() => {
+      if (calledProvider && useCache) {
+        cacheAnalyses(uncached.filter((mention) => !fallbackIds.has(mention.id)), batchResult.results, analysisVersion);
+      }
+      storeBatch(analyzed, counters);
+      updateJob(job.id, {
+        ...counters,
+        processed_rows: processedRows,
+        completed_batches: completedBatches,
+        ai_count: aiCount,
+        fallback_count: fallbackCount,
+        cache_count: cacheCount,
+        validated_count: validatedCount,
+        parse_failure_count: parseFailureCount,
+      });
+    })();
+  }
+
+  return getJob(job.id)!;
+};
+
+const runUploadJob = async (job: JobRow) => {
+  const finished = await runAnalysisJob(job, (items, counters) => {
+    for (const { mention, sentiment, entity, score, aspects, explanation, keywords, confidence, emotion, intent, source, model, promptVersion } of items) {
+      const item = {
+        platform: mention.source,
+        content: mention.content,
+        normalized_content: analysisText(mention),
+        date: mention.date,
+        date_is_fallback: mention.dateIsFallback ? 1 : 0,
+        sentiment,
+        entity,
+        score,
+        analysis_source: source,
+        analysis_model: model,
+        prompt_version: promptVersion,
+        explanation,
+        keywords: JSON.stringify(keywords),
+        confidence,
+        emotion,
+        intent,
+        fingerprint: mention.fingerprint,
+        upload_id: job.upload_id,
+        author: mention.author ?? null,
+        reach: mention.reach ?? null,
+        rating: mention.rating ?? null,
+        source_url: mention.sourceUrl ?? null,
+        external_id: mention.externalId ?? null,
+      };
+      try {
+        // Re-checked at write time: another upload may have stored the same review since parsing.
+        const existingId = findReviewIdByFingerprint.get(item.fingerprint) as number | undefined;
+        if (existingId === undefined) {
+          const { lastInsertRowid } = insertReview.run(item);
+          replaceReviewAspects(lastInsertRowid, aspects);
+          counters.new_count += 1;
+        } else if (job.duplicate_mode === 'overwrite') {
+          // The review stays with the upload that first stored it, so deleting this upload leaves it alone.
+          const keepManualLabels = Boolean(isManualReview.get(existingId));
+          overwriteReview.run({ ...item, id: existingId });
+          if (!keepManualLabels) replaceReviewAspects(existingId, aspects);
+          counters.updated_count += 1;
+        } else {
+          counters.duplicate_count += 1;
+        }
+      } catch (e) {
+        console.error('Failed to insert item:', item, e);
+      }
+    }
+  });
+
+  const { new_count: newCount, updated_count: updatedCount, duplicate_count: duplicateCount, fallback_count: fallbackCount, cache_count: cacheCount } = finished;
+  const cacheSummary = cacheCount > 0 ? ` ${cacheCount} hasil analisis diambil dari cache.` : '';
+  const duplicateSummary = `${newCount} baru, ${updatedCount} diperbarui, ${duplicateCount} duplikat dilewati.${cacheSummary}`;
+  const message = fallbackCount > 0
+    ? `Upload selesai: ${duplicateSummary} ${fallbackCount} review memakai fallback karena analisis Gemini tidak tersedia atau tidak valid.`
+    : `Upload selesai: ${duplicateSummary}`;
+
+  db.transaction(() => {
+    syncUploadCounts(finished);
+    updateJob(job.id, { status: 'completed', payload: null, message, finished_at: nowIso() });
+  })();
+};
+
+const runReanalyzeJob = async (job: JobRow) => {
+  const finished = await runAnalysisJob(job, (items, counters) => {
+    for (const { mention, sentiment, entity, score, aspects, explanation, keywords, confidence, emotion, intent, source, model, promptVersion } of items) {
+      const result = updateReviewAnalysis.run({
+        id: mention.reviewId,
+        normalized_content: analysisText(mention),
+        sentiment,
+        entity,
+        score,
+        analysis_source: source,
+        analysis_model: model,
+        prompt_version: promptVersion,
+        explanation,
+        keywords: JSON.stringify(keywords),
+        confidence,
+        emotion,
+        intent,
+      });
+      if (result.changes > 0) replaceReviewAspects(mention.reviewId!, aspects);
+      counters.updated_count += result.changes;
+    }
+  }, { useCache: false });
+
+  const message = finished.fallback_count > 0
+    ? `Analisis ulang selesai: ${finished.updated_count} review diperbarui, ${finished.fallback_count} memakai fallback.`
+    : `Analisis ulang selesai: ${finished.updated_count} review diperbarui.`;
+
+  db.transaction(() => {
+    syncUploadCounts(finished);
+    updateJob(job.id, { status: 'completed', payload: null, message, finished_at: nowIso() });
+  })();
+};
+
+interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+interface ClassificationReport {
+  evaluated: number;
+  accuracy: number | null;
+  macro_f1: number | null;
+  labels: string[];
+  per_class: Record<string, ClassMetrics>;
+  // confusion_matrix[expected][predicted] = count
+  confusion_matrix: Record<string, Record<string, number>>;
+}
+
+// `knownLabels` are always listed, so reports of different runs share the same matrix layout.
+const buildClassificationReport = (
+  pairs: Array<{ expected: string | null; predicted: string | null }>,
+  knownLabels: string[] = []
+): ClassificationReport => {
+  const scored = pairs.filter((pair): pair is { expected: string; predicted: string } => Boolean(pair.expected && pair.predicted));
+  const labels = [...new Set([...knownLabels, ...scored.flatMap((pair) => [pair.expected, pair.predicted])])].sort();
+  const confusion: Record<string, Record<string, number>> = Object.fromEntries(
+    labels.map((expected) => [expected, Object.fromEntries(labels.map((predicted) => [predicted, 0]))])
+  );
+  scored.forEach(({ expected, predicted }) => { confusion[expected][predicted] += 1; });
+
+  const perClass: Record<string, ClassMetrics> = {};
+  for (const label of labels) {
+    const truePositives = confusion[label][label];
+    const predictedTotal = labels.reduce((total, expected) => total + confusion[expected][label], 0);
+    const support = labels.reduce((total, predicted) => total + confusion[label][predicted], 0);
+    const precision = predictedTotal > 0 ? truePositives / predictedTotal : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[label] = { precision, recall, f1, support };
+  }
+
+  // Macro F1 only averages classes present in the gold set; predicted-only labels would drag it to zero.
+  const goldLabels = labels.filter((label) => perClass[label].support > 0);
+  const correct = scored.filter((pair) => pair.expected === pair.predicted).length;
+  return {
+    evaluated: scored.length,
+    accuracy: scored.length > 0 ? correct / scored.length : null,
+    macro_f1: goldLabels.length > 0 ? goldLabels.reduce((total, label) => total + perClass[label].f1, 0) / goldLabels.length : null,
+    labels,
+    per_class: perClass,
+    confusion_matrix: confusion,
+  };
+};
+
+const runEvaluateJob = async (job: JobRow) => {
+  const run = db.prepare('SELECT id FROM evaluation_runs WHERE job_id = ?').get(job.id) as { id: number } | undefined;
+  if (!run) throw new Error('Evaluation run not found for job.');
+  db.prepare(`UPDATE evaluation_runs SET status = 'running' WHERE id = ?`).run(run.id);
+
+  const storePrediction = db.prepare(`
+    UPDATE evaluation_items
+    SET predicted_sentiment = @sentiment, predicted_entity = @entity, predicted_score = @score, analysis_source = @source
+    WHERE id = @id
+  `);
+  const finished = await runAnalysisJob(job, (items) => {
+    for (const { mention, sentiment, entity, score, source } of items) {
+      storePrediction.run({ id: mention.evaluationItemId, sentiment, entity, score, source });
+    }
+  }, { useCache: false });
+
+  const items = db.prepare(`
+    SELECT expected_sentiment, expected_entity, predicted_sentiment, predicted_entity FROM evaluation_items WHERE run_id = ?
+  `).all(run.id) as Array<Record<'expected_sentiment' | 'expected_entity' | 'predicted_sentiment' | 'predicted_entity', string | null>>;
+  const sentiment = buildClassificationReport(
+    items.map((item) => ({ expected: item.expected_sentiment, predicted: item.predicted_sentiment })),
+    ['positive', 'neutral', 'negative']
+  );
+  const entity = buildClassificationReport(
+    items.map((item) => ({ expected: item.expected_entity, predicted: item.predicted_entity })),
+    getTaxonomy().map((entry) => entry.name)
+  );
+  const report = { sentiment, entity, fallback_count: finished.fallback_count };
+
+  const formatPct = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+  const message = `Evaluasi selesai: akurasi sentimen ${formatPct(sentiment.accuracy)}, entity ${formatPct(entity.accuracy)}.` +
+    (finished.fallback_count > 0 ? ` ${finished.fallback_count} item memakai fallback, hasil tidak representatif.` : '');
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE evaluation_runs
+      SET status = 'completed', sentiment_accuracy = ?, entity_accuracy = ?, report = ?, finished_at = ?
+      WHERE id = ?
+    `).run(sentiment.accuracy, entity.accuracy, JSON.stringify(report), nowIso(), run.id);
+    updateJob(job.id, { status: 'completed', payload: null, message, finished_at: nowIso() });
+  })();
+};
+
+// Rows per transaction; requests are served between chunks instead of waiting for the whole table.
+const REVIEW_CHUNK_SIZE = 500;
+
+// Walks the reviews table in id order, one transaction per chunk, and returns the summed change count of
+// processChunk. A restarted job starts over, so processChunk must be safe to run twice.
+const runReviewChunks = async (job: JobRow, processChunk: (firstId: number, lastId: number) => number): Promise<number> => {
+  const totalRows = db.prepare('SELECT COUNT(*) FROM reviews').pluck().get() as number;
+  updateJob(job.id, {
+    status: 'running',
+    started_at: nowIso(),
+    run_started_at: nowIso(),
+    run_start_batches: 0,
+    total_rows: totalRows,
+    total_batches: Math.ceil(totalRows / REVIEW_CHUNK_SIZE),
+    processed_rows: 0,
+    completed_batches: 0,
+    updated_count: 0,
+  });
+
+  const selectChunk = db.prepare('SELECT id FROM reviews WHERE id > ? ORDER BY id LIMIT ?').pluck();
+  let lastId = 0;
+  let processedRows = 0;
+  let completedBatches = 0;
+  let updatedCount = 0;
+  for (;;) {
+    const ids = selectChunk.all(lastId, REVIEW_CHUNK_SIZE) as number[];
+    if (ids.length === 0) break;
+    updatedCount += db.transaction(() => processChunk(ids[0], ids[ids.length - 1]))();
+    lastId = ids[ids.length - 1];
+    processedRows += ids.length;
+    completedBatches += 1;
+    updateJob(job.id, { processed_rows: processedRows, completed_batches: completedBatches, updated_count: updatedCount });
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return updatedCount;
+};
+
+// Rewrites normalized_content only; labels follow on the next re-analysis.
+const runRenormalizeJob = async (job: JobRow) => {
+  const selectRows = db.prepare('SELECT id, content, normalized_content FROM reviews WHERE id BETWEEN ? AND ?');
+  const updatedCount = await runReviewChunks(job, (firstId, lastId) =>
+    renormalizeReviews(selectRows.all(firstId, lastId) as NormalizationRow[]));
+  updateJob(job.id, {
+    status: 'completed',
+    message: `Normalisasi ulang selesai: ${updatedCount} review diperbarui. Label ikut berubah setelah analisis ulang.`,
+    finished_at: nowIso(),
+  });
+};
+
+const runRemapJob = async (job: JobRow) => {
+  const updatedCount = await runReviewChunks(job, remapReviewEntities);
+  updateJob(job.id, {
+    status: 'completed',
+    message: `Label topik disesuaikan dengan taksonomi: ${updatedCount} label dipindahkan.`,
+    finished_at: nowIso(),
+  });
+};
+
+const JOB_RUNNERS: Record<JobType, (job: JobRow) => Promise<void>> = {
+  upload: runUploadJob,
+  reanalyze: runReanalyzeJob,
+  evaluate: runEvaluateJob,
+  renormalize: runRenormalizeJob,
+  remap: runRemapJob,
+};
+
+const runJob = async (jobId: string) => {
+  const job = getJob(jobId);
+  if (!job || isJobFinished(job)) return;
+
+  try {
+    await JOB_RUNNERS[job.type](job);
+  } catch (error: any) {
+    console.error(`--- JOB ${jobId} FAILED ---`, error);
+    updateJob(jobId, { status: 'failed', error: error?.message || 'Unknown error', finished_at: nowIso() });
+    db.prepare(`UPDATE evaluation_runs SET status = 'failed', finished_at = ? WHERE job_id = ?`).run(nowIso(), jobId);
+  }
+};
+
+// Jobs run one at a time so concurrent uploads share the same Gemini rate limit. Maintenance jobs only
+// touch the database, so they get their own queue and never wait behind a long upload.
+const MAINTENANCE_JOB_TYPES: JobType[] = ['renormalize', 'remap'];
+let jobQueue: Promise<void> = Promise.resolve();
+let maintenanceQueue: Promise<void> = Promise.resolve();
+const enqueueJob = (jobId: string) => {
+  if (MAINTENANCE_JOB_TYPES.includes(getJob(jobId)?.type as JobType)) {
+    maintenanceQueue = maintenanceQueue.then(() => runJob(jobId));
+    return;
+  }
+  jobQueue = jobQueue.then(() => runJob(jobId));
+};
+
+// A maintenance job still waiting in its queue reads the taxonomy and slang dictionary when it starts, so it
+// covers later edits too.
+const enqueueMaintenanceJob = (type: JobType): JobRow => {
+  const queued = db.prepare(`SELECT * FROM jobs WHERE type = ? AND status = 'queued' LIMIT 1`).get(type) as JobRow | undefined;
+  if (queued) return queued;
+  const job = createJob({ type, uploadId: null, platform: null, fileName: null, mentions: [] });
+  enqueueJob(job.id);
+  return job;
+};
+
+// --- FILE FORMATS ---
+// Parsing lives in server/formats.ts; the raw upload routes hand it the body as a Buffer.
+const readRawBody = (body: unknown): Buffer => (Buffer.isBuffer(body) ? body : Buffer.alloc(0));
+
+// --- INGEST ---
+// Turns parsed rows into mentions: applies the column mapping, normalizes dates and drops
+// duplicates. Shared by every upload format so they all feed the same job pipeline.
+interface IngestResult {
+  rowCount: number;
+  columns: string[];
+  mapping: ColumnMapping;
+  mentions: Mention[];
+  duplicateCount: number;
+}
+
+const parseMappingQuery = (value: unknown): ColumnMapping => {
+  const parsed = ColumnMappingSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+};
+
+const createIngestSession = ({ platform, duplicateMode, mapping }: {
+  platform: string;
+  duplicateMode: DuplicateMode;
+  mapping: ColumnMapping;
+}) => {
+  const mentions: Mention[] = [];
+  const isDuplicate = createDuplicateCheck(duplicateMode, (fingerprint) => findReviewIdByFingerprint.get(fingerprint) !== undefined);
+  const preset = getMappingPreset(platform);
+  let columns: string[] = [];
+  let resolvedMapping: ColumnMapping = {};
+  let duplicateCount = 0;
+  let rowCount = 0;
+
+  const addRow = (row: Record<string, unknown>) => {
+    rowCount++;
+    if (rowCount === 1) {
+      columns = Object.keys(row);
+      resolvedMapping = resolveColumnMapping(columns, preset, mapping);
+    }
+
+    const content = readMappedValue(row, resolvedMapping.content);
+    if (!content) return;
+
+    // Only guess from other columns when no date column is mapped; an unparseable mapped date is left empty.
+    const sourceDate = resolvedMapping.date
+      ? normalizeDateValue(readMappedValue(row, resolvedMapping.date))
+      : getRowDate(row);
+    const author = readMappedValue(row, resolvedMapping.author);
+
+    const fingerprint = buildReviewFingerprint(platform, content, sourceDate, author);
+    if (isDuplicate(fingerprint)) {
+      duplicateCount++;
+      return;
+    }
+
+    mentions.push({
+      id: `csv-row-${rowCount}`,
+      content,
+      date: sourceDate ?? new Date().toISOString().slice(0, 10),
+      dateIsFallback: !sourceDate,
+      source: platform,
+      fingerprint,
+      author,
+      reach: parseCountValue(readMappedValue(row, resolvedMapping.reach)),
+      rating: parseRatingValue(readMappedValue(row, resolvedMapping.rating)),
+      sourceUrl: parseUrlValue(readMappedValue(row, resolvedMapping.url)),
+      externalId: readMappedValue(row, resolvedMapping.external_id),
+    });
+  };
+
+  const finish = (): IngestResult => ({ rowCount, columns, mapping: resolvedMapping, mentions, duplicateCount });
+
+  return { addRow, finish };
+};
+
+// Explains why a file produced nothing to analyze, instead of silently importing zero rows.
+const describeEmptyImport = (result: IngestResult): string | null => {
+  if (result.mentions.length > 0 || result.duplicateCount > 0) return null;
+  if (result.rowCount === 0) return 'File tidak berisi baris data.';
+  if (!result.mapping.content) {
+    return `Kolom konten review tidak ditemukan. Kolom terdeteksi: ${result.columns.join(', ')}. Pilih kolom konten secara manual di preview.`;
+  }
+  return `Kolom konten "${result.mapping.content}" kosong di semua ${result.rowCount} baris.`;
+};
+
+const queueUploadJob = (result: IngestResult, { platform, fileName, duplicateMode }: {
+  platform: string;
+  fileName: string | null;
+  duplicateMode: DuplicateMode;
+}): JobRow => {
+  const job = db.transaction(() => {
+    const { lastInsertRowid } = db.prepare(`
+      INSERT INTO uploads (file_name, platform, total_rows, duplicate_count, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(fileName, platform, result.rowCount, result.duplicateCount, nowIso());
+    return createJob({
+      type: 'upload',
+      uploadId: Number(lastInsertRowid),
+      platform,
+      fileName,
+      mentions: result.mentions,
+      duplicateMode,
+      duplicateCount: result.duplicateCount,
+    });
+  })();
+  enqueueJob(job.id);
+  return job;
+};
+
+// --- API ENDPOINTS ---
+
+app.get('/api/health', (_req, res) => {
+  res.status(200).json({ status: 'ok' });
+});
+
+app.post('/api/upload-csv', (req, res) => {
+  console.log('Received CSV upload request (streaming).');
+  const platform = (req.query.platform as string) || 'CSV';
+  const fileName = typeof req.query.fileName === 'string' ? req.query.fileName : null;
+  const duplicateMode: DuplicateMode = req.query.duplicates === 'overwrite' ? 'overwrite' : 'skip';
+  const session = createIngestSession({ platform, duplicateMode, mapping: parseMappingQuery(req.query.mapping) });
+
+  const csvStream = req.pipe(new PassThrough());
+
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+    header: true,
+    skipEmptyLines: true,
+  });
+
+  csvStream.pipe(parser);
+
+  parser.on('data', (row: Record<string, unknown>) => session.addRow(row));
+
+  parser.on('end', () => {
+    try {
+      const result = session.finish();
+      console.log(`CSV parsing complete. Found ${result.mentions.length} valid rows (${result.duplicateCount} duplicates). Queueing analysis job...`);
+
+      const emptyImportError = describeEmptyImport(result);
+      if (emptyImportError) {
+        res.status(400).json({ error: emptyImportError, columns: result.columns, mapping: result.mapping });
+        return;
+      }
+
+      const job = queueUploadJob(result, { platform, fileName, duplicateMode });
+      res.status(202).json({ message: 'Upload diterima, analisis berjalan di background.', job: serializeJob(job) });
+    } catch (error) {
+      console.error('--- ERROR DURING STREAM COMPLETION ---', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'An unexpected error occurred on the server during stream processing.' });
+      }
+    }
+  });
+
+  parser.on('error', (error) => {
+    console.error('--- CSV PARSING STREAM ERROR ---', error);
+    if (!res.headersSent) {
+      res.status(400).json({ error: 'Failed to parse CSV stream.', details: error.message });
+    }
+  });
+
+  req.on('error', (error) => {
+    console.error('--- REQUEST STREAM ERROR ---', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'An error occurred with the request stream.' });
+    }
+  });
+});
+
+// Format-agnostic ingest: the body is the raw file (CSV, TSV, XLSX, JSON or NDJSON), detected by content.
+app.post('/api/upload', express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
+  const platform = (req.query.platform as string) || 'CSV';
+  const fileName = typeof req.query.fileName === 'string' ? req.query.fileName : null;
+  const duplicateMode: DuplicateMode = req.query.duplicates === 'overwrite' ? 'overwrite' : 'skip';
+
+  let parsed: ParsedUpload;
+  try {
+    parsed = await parseUploadBody(readRawBody(req.body));
+  } catch (error: any) {
+    console.error('--- UPLOAD PARSING ERROR ---', error);
+    res.status(400).json({ error: 'Failed to parse uploaded file.', details: error?.message });
+    return;
+  }
+
+  try {
+    const session = createIngestSession({ platform, duplicateMode, mapping: parseMappingQuery(req.query.mapping) });
+    parsed.rows.forEach((row) => session.addRow(row));
+    const result = session.finish();
+    console.log(`${parsed.format.toUpperCase()} parsing complete. Found ${result.mentions.length} valid rows (${result.duplicateCount} duplicates). Queueing analysis job...`);
+
+    const emptyImportError = describeEmptyImport(result);
+    if (emptyImportError) {
+      res.status(400).json({ error: emptyImportError, format: parsed.format, columns: result.columns, mapping: result.mapping });
+      return;
+    }
+
+    const job = queueUploadJob(result, { platform, fileName, duplicateMode });
+    res.status(202).json({ message: 'Upload diterima, analisis berjalan di background.', format: parsed.format, job: serializeJob(job) });
+  } catch (error) {
+    console.error('--- ERROR DURING UPLOAD INGEST ---', error);
+    res.status(500).json({ error: 'An unexpected error occurred on the server during upload processing.' });
+  }
+});
+
+// Parses the uploaded file and returns only its first rows so the user can confirm the column mapping before importing.
+app.post('/api/upload-preview', express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
+  const platform = (req.query.platform as string) || 'CSV';
+  const previewLimit = Math.min(Math.max(Number(req.query.rows) || 10, 1), 50);
+
+  try {
+    const { format, rows, totalRows } = await parseUploadBody(readRawBody(req.body), previewLimit);
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const preset = getMappingPreset(platform);
+    // Values that would not parse as a date, per column, so picking one as the date column shows what would be lost.
+    const invalidDates: Record<string, string[]> = {};
+    for (const column of columns) {
+      const invalid = rows
+        .map((row) => readMappedValue(row, column))
+        .filter((value): value is string => value !== null && normalizeDateValue(value) === null);
+      if (invalid.length > 0) invalidDates[column] = invalid;
+    }
+    res.json({
+      format,
+      columns,
+      rows,
+      total_rows: totalRows,
+      total_rows_estimated: format === 'csv' || format === 'tsv' || format === 'ndjson',
+      mapping: resolveColumnMapping(columns, preset),
+      has_preset: Object.keys(preset).length > 0,
+      invalid_dates: invalidDates,
+    });
+  } catch (error: any) {
+    console.error('--- UPLOAD PREVIEW ERROR ---', error);
+    res.status(400).json({ error: 'Failed to parse uploaded file.', details: error?.message });
+  }
+});
+
+app.get('/api/mapping-presets', (_req, res) => {
+  const presets = db.prepare('SELECT platform, mapping, updated_at FROM mapping_presets ORDER BY platform').all() as
+    Array<{ platform: string; mapping: string; updated_at: string }>;
+  res.json(presets.map((preset) => ({ ...preset, mapping: JSON.parse(preset.mapping) })));
+});
+
+app.put('/api/mapping-presets/:platform', (req, res) => {
+  const parsed = ColumnMappingSchema.safeParse(req.body?.mapping);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid column mapping.', details: parsed.error.issues });
+    return;
+  }
+
+  db.prepare(`
+    INSERT INTO mapping_presets (platform, mapping, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(platform) DO UPDATE SET mapping = excluded.mapping, updated_at = excluded.updated_at
+  `).run(req.params.platform, JSON.stringify(parsed.data), nowIso());
+  res.json({ platform: req.params.platform, mapping: parsed.data });
+});
+
+// --- EVALUATION ---
+const EXPECTED_SENTIMENT_KEYS = ['expectedsentiment', 'goldsentiment', 'sentiment', 'label', 'sentimen'];
+const EXPECTED_ENTITY_KEYS = ['expectedentity', 'goldentity', 'entity', 'topic', 'aspect', 'topik'];
+const GOLD_SENTIMENTS: Record<string, SentimentAnalysis['sentiment']> = {
+  positive: 'positive', positif: 'positive', pos: 'positive',
+  neutral: 'neutral', netral: 'neutral', neu: 'neutral',
+  negative: 'negative', negatif: 'negative', neg: 'negative',
+};
+
+// Gold entities are matched to the taxonomy case-insensitively; anything else is kept as written
+// so a missing topic shows up in the confusion matrix instead of silently becoming General.
+const normalizeGoldEntity = (value: string | null): string | null => {
+  if (!value) return null;
+  const match = getTaxonomy().find((entry) => entry.name.toLowerCase() === value.toLowerCase());
+  return match ? match.name : value;
+};
+
+// Runs a labelled file (same formats as /api/upload, with expected_sentiment / expected_entity
+// columns) through the configured provider as a background job and stores a scored report.
+app.post('/api/evaluations', express.raw({ type: () => true, limit: '50mb' }), async (req, res) => {
+  let parsed: ParsedUpload;
+  try {
+    parsed = await parseUploadBody(readRawBody(req.body));
+  } catch (error: any) {
+    res.status(400).json({ error: 'Failed to parse uploaded file.', details: error?.message });
+    return;
+  }
+
+  const columns = parsed.rows.length > 0 ? Object.keys(parsed.rows[0]) : [];
+  const contentColumn = guessColumnMapping(columns).content;
+  const sentimentColumn = findColumn(columns, EXPECTED_SENTIMENT_KEYS);
+  const entityColumn = findColumn(columns, EXPECTED_ENTITY_KEYS);
+  if (!contentColumn || (!sentimentColumn && !entityColumn)) {
+    res.status(400).json({
+      error: 'File evaluasi butuh kolom konten dan minimal satu kolom label (expected_sentiment atau expected_entity).',
+      columns,
+    });
+    return;
+  }
+
+  const goldItems = parsed.rows
+    .map((row) => ({
+      content: readMappedValue(row, contentColumn),
+      expected_sentiment: GOLD_SENTIMENTS[(readMappedValue(row, sentimentColumn) || '').toLowerCase()] ?? null,
+      expected_entity: normalizeGoldEntity(readMappedValue(row, entityColumn)),
+    }))
+    .filter((item): item is { content: string; expected_sentiment: SentimentAnalysis['sentiment'] | null; expected_entity: string | null } =>
+      Boolean(item.content && (item.expected_sentiment || item.expected_entity)));
+  if (goldItems.length === 0) {
+    res.status(400).json({ error: 'Tidak ada baris berlabel yang bisa dievaluasi.', columns });
+    return;
+  }
+
+  const label = typeof req.query.label === 'string' && req.query.label.trim() ? req.query.label.trim() : null;
+  const fileName = typeof req.query.fileName === 'string' ? req.query.fileName : null;
+  const today = new Date().toISOString().slice(0, 10);
+
+  const { run, job } = db.transaction(() => {
+    const { lastInsertRowid: runId } = db.prepare(`
+      INSERT INTO evaluation_runs (label, file_name, provider, model, prompt_version, analysis_version, total_items, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(label, fileName, sentimentProvider.name, sentimentProvider.model, getCurrentPromptVersion(), getAnalysisVersion(), goldItems.length, nowIso());
+    const insertItem = db.prepare(`
+      INSERT INTO evaluation_items (run_id, content, expected_sentiment, expected_entity)
+      VALUES (@run_id, @content, @expected_sentiment, @expected_entity)
+    `);
+    const mentions: Mention[] = goldItems.map((item, index) => {
+      const { lastInsertRowid: itemId } = insertItem.run({ run_id: runId, ...item });
+      return {
+        id: `eval-${index + 1}`,
+        source: 'Evaluation',
+        content: item.content,
+        date: today,
+        fingerprint: '',
+        evaluationItemId: Number(itemId),
+      };
+    });
+    const job = createJob({ type: 'evaluate', uploadId: null, platform: null, fileName, mentions });
+    db.prepare('UPDATE evaluation_runs SET job_id = ? WHERE id = ?').run(job.id, runId);
+    return { run: db.prepare('SELECT * FROM evaluation_runs WHERE id = ?').get(runId), job };
+  })();
+
+  enqueueJob(job.id);
+  res.status(202).json({ message: `Evaluasi ${goldItems.length} item berjalan di background.`, run, job: serializeJob(job) });
+});
+
+app.get('/api/evaluations', (_req, res) => {
+  const runs = db.prepare(`
+    SELECT id, job_id, label, file_name, provider, model, prompt_version, analysis_version, status, total_items,
+      sentiment_accuracy, entity_accuracy, json_extract(report, '$.sentiment.macro_f1') as sentiment_macro_f1,
+      json_extract(report, '$.entity.macro_f1') as entity_macro_f1, created_at, finished_at
+    FROM evaluation_runs ORDER BY id DESC
+  `).all();
+  res.json(runs);
+});
+
+app.get('/api/evaluations/:id', (req, res) => {
+  const run = db.prepare('SELECT * FROM evaluation_runs WHERE id = ?').get(Number(req.params.id)) as
+    (Record<string, unknown> & { report: string | null }) | undefined;
+  if (!run) {
+    res.status(404).json({ error: 'Evaluation run not found.' });
+    return;
+  }
+  const items = db.prepare(`
+    SELECT id, content, expected_sentiment, predicted_sentiment, expected_entity, predicted_entity, predicted_score, analysis_source,
+      (expected_sentiment IS NOT NULL AND expected_sentiment IS NOT predicted_sentiment)
+        OR (expected_entity IS NOT NULL AND expected_entity IS NOT predicted_entity) as mismatch
+    FROM evaluation_items WHERE run_id = ? ORDER BY id
+  `).all(run.id);
+  res.json({ ...run, report: safeJSONParse(run.report || 'null', null), items });
+});
+
+const PromptTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(80).default(DEFAULT_PROMPT_NAME),
+  template: z.string().min(1),
+  notes: z.string().trim().max(500).optional(),
+  activate: z.boolean().default(false),
+});
+
+const activatePromptTemplate = (id: number) => {
+  db.transaction(() => {
+    db.prepare('UPDATE prompt_templates SET is_active = 0 WHERE is_active = 1').run();
+    db.prepare('UPDATE prompt_templates SET is_active = 1, activated_at = ? WHERE id = ?').run(nowIso(), id);
+  })();
+};
+
+app.get('/api/prompts', (_req, res) => {
+  res.json(db.prepare('SELECT * FROM prompt_templates ORDER BY name, version DESC').all());
+});
+
+app.get('/api/prompts/active', (_req, res) => {
+  const active = getActivePromptTemplate();
+  res.json({ ...active, prompt_version: formatPromptVersion(active), variables: PROMPT_VARIABLES, brand: brandName });
+});
+
+// Saves the template as the next version of its name; it only takes effect once activated.
+app.post('/api/prompts', (req, res) => {
+  const parsed = PromptTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid prompt template.', details: parsed.error.issues });
+    return;
+  }
+  const problems = validatePromptTemplate(parsed.data.template);
+  if (problems.length > 0) {
+    res.status(400).json({ error: 'Invalid prompt template.', details: problems });
+    return;
+  }
+
+  const { name, template, notes, activate } = parsed.data;
+  const nextVersion = ((db.prepare('SELECT MAX(version) FROM prompt_templates WHERE name = ?').pluck().get(name) as number | null) ?? 0) + 1;
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO prompt_templates (name, version, template, notes, created_at) VALUES (?, ?, ?, ?, ?)
+  `).run(name, nextVersion, template, notes ?? null, nowIso());
+  if (activate) activatePromptTemplate(Number(lastInsertRowid));
+  res.status(201).json(db.prepare('SELECT * FROM prompt_templates WHERE id = ?').get(lastInsertRowid));
+});
+
+app.post('/api/prompts/:id/activate', (req, res) => {
+  const template = db.prepare('SELECT * FROM prompt_templates WHERE id = ?').get(Number(req.params.id)) as PromptTemplateRow | undefined;
+  if (!template) {
+    res.status(404).json({ error: 'Prompt template not found.' });
+    return;
+  }
+  activatePromptTemplate(template.id);
+  res.json({ message: `Prompt ${formatPromptVersion(template)} aktif.`, prompt_version: formatPromptVersion(template) });
+});
+
+app.get('/api/taxonomy', (_req, res) => {
+  res.json(getTaxonomy());
+});
+
+app.put('/api/taxonomy/:name', (req, res) => {
+  const name = req.params.name.trim();
+  if (!name || name.length > 60) {
+    res.status(400).json({ error: 'Nama topik wajib diisi (maksimal 60 karakter).' });
+    return;
+  }
+  const parsed = TaxonomyEntrySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid taxonomy entry.', details: parsed.error.issues });
+    return;
+  }
+
+  const clash = getTaxonomy().find((entry) =>
+    entry.name.toLowerCase() !== name.toLowerCase() && (
+      parsed.data.synonyms.includes(entry.name.toLowerCase()) ||
+      entry.synonyms.includes(name.toLowerCase())
+    )
+  );
+  if (clash) {
+    res.status(409).json({ error: `Nama atau sinonim bentrok dengan topik "${clash.name}".` });
+    return;
+  }
+
+  const existing = getTaxonomy().find((entry) => entry.name.toLowerCase() === name.toLowerCase());
+  const sortOrder = parsed.data.sort_order
+    ?? existing?.sort_order
+    ?? Math.max(-1, ...getTaxonomy().filter((entry) => entry.name !== GENERAL_ENTITY).map((entry) => entry.sort_order)) + 1;
+
+  db.prepare(`
+    INSERT INTO entity_taxonomy (name, description, keywords, synonyms, sort_order, updated_at)
+    VALUES (@name, @description, @keywords, @synonyms, @sort_order, @updated_at)
+    ON CONFLICT(name) DO UPDATE SET description = excluded.description, keywords = excluded.keywords,
+      synonyms = excluded.synonyms, sort_order = excluded.sort_order, updated_at = excluded.updated_at
+  `).run({
+    name,
+    description: parsed.data.description,
+    keywords: JSON.stringify(parsed.data.keywords),
+    synonyms: JSON.stringify(parsed.data.synonyms),
+    sort_order: sortOrder,
+    updated_at: nowIso(),
+  });
+  const job = invalidateTaxonomy();
+  res.json({ entry: getTaxonomy().find((entry) => entry.name.toLowerCase() === name.toLowerCase()), job: serializeJob(job) });
+});
+
+// Reviews labelled with a deleted topic by the model are moved to General by a background job; manual corrections keep their label.
+app.delete('/api/taxonomy/:name', (req, res) => {
+  if (req.params.name.trim().toLowerCase() === GENERAL_ENTITY.toLowerCase()) {
+    res.status(400).json({ error: `Topik ${GENERAL_ENTITY} tidak bisa dihapus.` });
+    return;
+  }
+  const { changes } = db.prepare('DELETE FROM entity_taxonomy WHERE name = ?').run(req.params.name.trim());
+  if (changes === 0) {
+    res.status(404).json({ error: 'Topic not found.' });
+    return;
+  }
+  const job = invalidateTaxonomy();
+  res.json({ message: `Topik dihapus, label review dipindahkan ke ${GENERAL_ENTITY} di background.`, job: serializeJob(job) });
+});
+
+app.get('/api/slang', (_req, res) => {
+  res.json(db.prepare('SELECT term, replacement, updated_at FROM slang_dictionary ORDER BY term').all());
+});
+
+// Stored reviews are renormalized by a background job; their labels change on the next re-analysis.
+app.put('/api/slang/:term', (req, res) => {
+  const term = req.params.term.trim().toLowerCase();
+  if (!term || term.length > 40 || /\s/.test(term)) {
+    res.status(400).json({ error: 'Istilah wajib diisi, satu kata tanpa spasi (maksimal 40 karakter).' });
+    return;
+  }
+  const parsed = SlangEntrySchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid slang entry.', details: parsed.error.issues });
+    return;
+  }
+  db.prepare(`
+    INSERT INTO slang_dictionary (term, replacement, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT(term) DO UPDATE SET replacement = excluded.replacement, updated_at = excluded.updated_at
+  `).run(term, parsed.data.replacement.toLowerCase(), nowIso());
+  const job = invalidateSlangDictionary();
+  res.json({ entry: { term, replacement: getSlangDictionary().get(term) }, job: serializeJob(job) });
+});
+
+app.delete('/api/slang/:term', (req, res) => {
+  const { changes } = db.prepare('DELETE FROM slang_dictionary WHERE term = ?').run(req.params.term.trim());
+  if (changes === 0) {
+    res.status(404).json({ error: 'Slang term not found.' });
+    return;
+  }
+  const job = invalidateSlangDictionary();
+  res.json({ message: 'Istilah dihapus, review dinormalisasi ulang di background.', job: serializeJob(job) });
+});
+
+// Shows what the lexicon classifier and search would see for a piece of text, for checking dictionary edits.
+app.post('/api/normalize', (req, res) => {
+  const parsed = NormalizePreviewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid text.', details: parsed.error.issues });
+    return;
+  }
+  res.json({ text: parsed.data.text, normalized: normalizeText(parsed.data.text) });
+});
+
+app.get('/api/analysis-cache', (_req, res) => {
+  const stats = db.prepare(`
+    SELECT
+      COUNT(*) as entries,
+      COALESCE(SUM(hit_count), 0) as hits,
+      SUM(CASE WHEN analysis_version = @version THEN 1 ELSE 0 END) as current_entries
+    FROM analysis_cache
+  `).get({ version: getAnalysisVersion() });
+  res.json({ analysis_version: getAnalysisVersion(), ...(stats as object) });
+});
+
+app.delete('/api/analysis-cache', (_req, res) => {
+  const { changes } = db.prepare('DELETE FROM analysis_cache').run();
+  res.json({ message: `${changes} hasil analisis dihapus dari cache.` });
+});
+
+// Today's usage of the active provider, so the UI can warn before an upload that would run past the quota.
+app.get('/api/quota', (_req, res) => {
+  const { name: provider, model, rateLimited } = sentimentProvider;
+  const usage = getDailyUsage(provider, model);
+  const tokensPerReview = usage.review_count > 0 ? Math.ceil(usage.total_tokens / usage.review_count) : DEFAULT_TOKENS_PER_REVIEW;
+  const tokensRemaining = usage.exhausted_at ? 0 : Math.max(0, GEMINI_TOKENS_PER_DAY - usage.total_tokens);
+  const tomorrow = new Date(`${usage.day}T00:00:00.000Z`);
+  tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+
+  res.json({
+    provider,
+    model,
+    rate_limited: rateLimited,
+    day: usage.day,
+    resets_at: tomorrow.toISOString(),
+    requests_per_minute: rateLimited ? GEMINI_REQUESTS_PER_MINUTE : null,
+    tokens_per_day: rateLimited ? GEMINI_TOKENS_PER_DAY : null,
+    requests_today: usage.request_count,
+    rate_limited_today: usage.rate_limited_count,
+    tokens_used: usage.total_tokens,
+    tokens_remaining: rateLimited ? tokensRemaining : null,
+    exhausted: Boolean(usage.exhausted_at) || (rateLimited && tokensRemaining === 0),
+    tokens_per_review: tokensPerReview,
+    estimated_reviews_remaining: rateLimited ? Math.floor(tokensRemaining / tokensPerReview) : null,
+  });
+});
+
+// ?type=upload,reanalyze limits the list to those job types.
+app.get('/api/jobs', (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+  const types = typeof req.query.type === 'string' ? req.query.type.split(',').filter(Boolean) : [];
+  const typeFilter = types.length > 0 ? `WHERE type IN (${types.map(() => '?').join(', ')})` : '';
+  const jobs = db.prepare(`SELECT * FROM jobs ${typeFilter} ORDER BY created_at DESC LIMIT ?`).all(...types, limit) as JobRow[];
+  res.json(jobs.map(serializeJob));
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found.' });
+    return;
+  }
+  res.json(serializeJob(job));
+});
+
+// Server-Sent Events stream of job progress. Closes once the job reaches a final state.
+app.get('/api/jobs/:id/events', (req, res) => {
+  const jobId = req.params.id;
+  const job = getJob(jobId);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found.' });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const send = (current: JobRow) => {
+    res.write(`event: progress\ndata: ${JSON.stringify(serializeJob(current))}\n\n`);
+  };
+
+  send(job);
+  if (isJobFinished(job)) {
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    jobEvents.off(jobId, onUpdate);
+  };
+  const onUpdate = (current: JobRow) => {
+    send(current);
+    if (isJobFinished(current)) {
+      cleanup();
+      res.end();
+    }
+  };
+
+  jobEvents.on(jobId, onUpdate);
+  req.on('close', cleanup);
+});
+
+app.get('/api/uploads', (_req, res) => {
+  const uploads = db.prepare(`
+    SELECT
+      uploads.*,
+      (SELECT COUNT(*) FROM reviews WHERE reviews.upload_id = uploads.id) as review_count,
+      latest_job.id as job_id,
+      latest_job.type as job_type,
+      latest_job.status as job_status
+    FROM uploads
+    LEFT JOIN jobs latest_job ON latest_job.id = (
+      SELECT id FROM jobs WHERE jobs.upload_id = uploads.id ORDER BY created_at DESC LIMIT 1
+    )
+    ORDER BY uploads.created_at DESC, uploads.id DESC
+  `).all();
+  res.json(uploads);
+});
+
+const findActiveUploadJob = db.prepare(
+  "SELECT id FROM jobs WHERE upload_id = ? AND status IN ('queued', 'running') LIMIT 1"
+).pluck();
+
+app.delete('/api/uploads/:id', (req, res) => {
+  const uploadId = Number(req.params.id);
+  const upload = db.prepare('SELECT id FROM uploads WHERE id = ?').get(uploadId);
+  if (!upload) {
+    res.status(404).json({ error: 'Upload not found.' });
+    return;
+  }
+  if (findActiveUploadJob.get(uploadId)) {
+    res.status(409).json({ error: 'Upload masih diproses. Tunggu sampai analisis selesai sebelum menghapus.' });
+    return;
+  }
+
+  try {
+    const deleted = db.transaction(() => {
+      db.prepare('DELETE FROM review_aspects WHERE review_id IN (SELECT id FROM reviews WHERE upload_id = ?)').run(uploadId);
+      db.prepare(`
+        INSERT INTO review_history_archive (id, review_id, review_content, upload_id, field, old_value, new_value, changed_by, changed_at, archived_at)
+        SELECT review_history.id, review_id, reviews.content, reviews.upload_id, field, old_value, new_value, changed_by, changed_at, ?
+        FROM review_history JOIN reviews ON reviews.id = review_history.review_id
+        WHERE reviews.upload_id = ?
+      `).run(nowIso(), uploadId);
+      db.prepare('DELETE FROM review_history WHERE review_id IN (SELECT id FROM reviews WHERE upload_id = ?)').run(uploadId);
+      const { changes } = db.prepare('DELETE FROM reviews WHERE upload_id = ?').run(uploadId);
+      db.prepare('UPDATE jobs SET upload_id = NULL WHERE upload_id = ?').run(uploadId);
+      db.prepare('DELETE FROM uploads WHERE id = ?').run(uploadId);
+      return changes;
+    })();
+    res.status(200).json({ message: `Upload dihapus beserta ${deleted} review.` });
+  } catch (error) {
+    console.error('Delete upload error:', error);
+    res.status(500).json({ error: 'Failed to delete upload.' });
+  }
+});
+
+const REANALYZE_COLUMNS = 'id, platform, content, date, fingerprint';
+
+interface StoredReviewRow {
+  id: number;
+  platform: string;
+  content: string;
+  date: string;
+  fingerprint: string | null;
+}
+
+const toReanalyzeMentions = (reviews: StoredReviewRow[]): Mention[] =>
+  reviews.map((review) => ({
+    id: `review-${review.id}`,
+    source: review.platform,
+    content: review.content,
+    date: review.date,
+    fingerprint: review.fingerprint || '',
+    reviewId: review.id,
+  }));
+
+app.post('/api/uploads/:id/reanalyze', (req, res) => {
+  const uploadId = Number(req.params.id);
+  const upload = db.prepare('SELECT id, platform, file_name FROM uploads WHERE id = ?').get(uploadId) as
+    { id: number; platform: string | null; file_name: string | null } | undefined;
+  if (!upload) {
+    res.status(404).json({ error: 'Upload not found.' });
+    return;
+  }
+  if (findActiveUploadJob.get(uploadId)) {
+    res.status(409).json({ error: 'Upload masih diproses.' });
+    return;
+  }
+
+  const reviews = db.prepare(`
+    SELECT ${REANALYZE_COLUMNS} FROM reviews WHERE upload_id = ? AND analysis_source IS NOT 'manual' ORDER BY id
+  `).all(uploadId) as StoredReviewRow[];
+  const job = createJob({ type: 'reanalyze', uploadId, platform: upload.platform, fileName: upload.file_name, mentions: toReanalyzeMentions(reviews) });
+  enqueueJob(job.id);
+  res.status(202).json({ message: 'Analisis ulang berjalan di background.', job: serializeJob(job) });
+});
+
+// Re-runs stored reviews matching a filter, by default only those that were never really analyzed.
+app.post('/api/reanalyze', (req, res) => {
+  const parsed = ReanalyzeFilterSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid re-analysis filter.', details: parsed.error.issues });
+    return;
+  }
+  const { fallback_only: fallbackOnly, from, to, upload_id: uploadId } = parsed.data;
+  if (uploadId !== undefined && findActiveUploadJob.get(uploadId)) {
+    res.status(409).json({ error: 'Upload masih diproses.' });
+    return;
+  }
+
+  const conditions: string[] = [`analysis_source IS NOT 'manual'`];
+  const params: Record<string, unknown> = {};
+  if (fallbackOnly) conditions.push(`analysis_source = 'fallback'`);
+  if (from) {
+    conditions.push('date >= @from');
+    params.from = from;
+  }
+  if (to) {
+    conditions.push('date <= @to');
+    params.to = to;
+  }
+  if (uploadId !== undefined) {
+    conditions.push('upload_id = @uploadId');
+    params.uploadId = uploadId;
+  }
+  const reviews = db.prepare(`SELECT ${REANALYZE_COLUMNS} FROM reviews WHERE ${conditions.join(' AND ')} ORDER BY id`).all(params) as StoredReviewRow[];
+  if (reviews.length === 0) {
+    res.status(200).json({ message: 'Tidak ada review yang cocok dengan filter.', job: null });
+    return;
+  }
+
+  const job = createJob({ type: 'reanalyze', uploadId: uploadId ?? null, platform: null, fileName: null, mentions: toReanalyzeMentions(reviews) });
+  enqueueJob(job.id);
+  res.status(202).json({ message: `Analisis ulang ${reviews.length} review berjalan di background.`, job: serializeJob(job) });
+});
+
+// Other endpoints remain the same
+const ReviewQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  sort: z.enum(['date', 'score', 'platform']).default('date'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
+  emotion: z.enum(EMOTIONS).optional(),
+  intent: z.enum(INTENTS).optional(),
+  platform: z.string().trim().min(1).optional(),
+  entity: z.string().trim().min(1).optional(),
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional(),
+  q: z.string().trim().min(1).optional(),
+});
+// Search results are ranked by relevance unless another sort is asked for.
+const SearchQuerySchema = ReviewQuerySchema.extend({
+  q: z.string().trim().min(1).max(200),
+  sort: z.enum(['relevance', 'date', 'score', 'platform']).default('relevance'),
+});
+
+const REVIEW_SORT_COLUMNS: Record<z.infer<typeof SearchQuerySchema>['sort'], string> = {
+  relevance: 'bm25(reviews_fts)',
+  date: 'reviews.date',
+  score: 'reviews.score',
+  platform: 'reviews.platform COLLATE NOCASE',
+};
+
+// Filters shared by the review listing and search; they combine with AND.
+const buildReviewFilter = (query: Pick<z.infer<typeof ReviewQuerySchema>, 'sentiment' | 'emotion' | 'intent' | 'platform' | 'entity' | 'from' | 'to'>) => {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  for (const [column, value] of [['sentiment', query.sentiment], ['emotion', query.emotion], ['intent', query.intent], ['platform', query.platform]] as const) {
+    if (value === undefined) continue;
+    conditions.push(`reviews.${column} = ?`);
+    params.push(value);
+  }
+  // A review belongs to every topic it has an aspect for, as on the topic cards.
+  if (query.entity) {
+    conditions.push('reviews.id IN (SELECT review_id FROM review_aspects WHERE aspect = ?)');
+    params.push(resolveEntity(query.entity));
+  }
+  if (query.from) {
+    conditions.push('reviews.date >= ?');
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('reviews.date <= ?');
+    params.push(query.to);
+  }
+  return { conditions, params };
+};
+
+// Parsed keywords and the aspect tuples for one page of review rows.
+const withReviewDetails = <T extends Record<string, unknown> & { id: number }>(reviews: T[]) => {
+  const aspectsByReview = new Map<number, AspectSentiment[]>();
+  if (reviews.length > 0) {
+    const aspectRows = db.prepare(`
+      SELECT review_id, aspect, sentiment, score, evidence FROM review_aspects
+      WHERE review_id IN (${reviews.map(() => '?').join(', ')})
+      ORDER BY id
+    `).all(reviews.map((review) => review.id)) as Array<AspectSentiment & { review_id: number }>;
+    for (const { review_id: reviewId, ...aspect } of aspectRows) {
+      if (!aspectsByReview.has(reviewId)) aspectsByReview.set(reviewId, []);
+      aspectsByReview.get(reviewId)!.push(aspect);
+    }
+  }
+  return reviews.map((review) => ({
+    ...review,
+    keywords: safeJSONParse<string[]>(review.keywords as string, []),
+    aspects: aspectsByReview.get(review.id) || [],
+  }));
+};
+
+// One page of reviews at a time; `summary` always covers the whole table.
+app.get('/api/data', (req, res) => {
+  const parsed = ReviewQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid review query.', details: parsed.error.issues });
+    return;
+  }
+  const { page, limit, sort, order, q } = parsed.data;
+  const { conditions, params } = buildReviewFilter(parsed.data);
+  const searchExpression = q ? buildSearchExpression(q, normalizeText) : null;
+  if (searchExpression) {
+    conditions.push('reviews.id IN (SELECT rowid FROM reviews_fts WHERE reviews_fts MATCH ?)');
+    params.push(searchExpression);
+  }
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const total = db.prepare(`SELECT COUNT(*) FROM reviews ${whereClause}`).pluck().get(params) as number;
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+  const reviews = db.prepare(`
+    SELECT * FROM reviews ${whereClause}
+    ORDER BY ${REVIEW_SORT_COLUMNS[sort]} ${direction}, reviews.id ${direction}
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, (page - 1) * limit) as Array<Record<string, unknown> & { id: number }>;
+  
+  const summaryStmt = `
+    SELECT
+      (SELECT COUNT(*) FROM reviews WHERE sentiment = 'positive') as total_positive,
+      (SELECT COUNT(*) FROM reviews WHERE sentiment = 'negative') as total_negative,
       (SELECT COUNT(*) FROM reviews WHERE sentiment = 'neutral') as total_neutral,
+      (SELECT COUNT(*) FROM reviews WHERE analysis_source = 'fallback') as unanalyzed,
       (
         SELECT
           CASE
@@ -533,13 +2849,157 @@ app.get('/api/data', (req, res) => {
   `;
   const summary = db.prepare(summaryStmt).get();
 
-  res.json({ reviews, summary });
+  res.json({
+    reviews: withReviewDetails(reviews),
+    pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+    summary
+  });
+});
+
+// Full-text search with the same filters as /api/data. `snippet` is an excerpt of the review with the
+// matched words wrapped in <mark></mark>, taken from the normalized text when only that one matched.
+app.get('/api/search', (req, res) => {
+  const parsed = SearchQuerySchema.safeParse(req.query);
+  const searchExpression = parsed.success ? buildSearchExpression(parsed.data.q, normalizeText) : null;
+  if (!parsed.success || !searchExpression) {
+    res.status(400).json({ error: 'Invalid search query.', details: parsed.success ? [] : parsed.error.issues });
+    return;
+  }
+  const { page, limit, sort, order, q } = parsed.data;
+  const { conditions, params } = buildReviewFilter(parsed.data);
+  const whereClause = ['reviews_fts MATCH ?', ...conditions].join(' AND ');
+  const matchParams = [searchExpression, ...params];
+
+  const total = db.prepare(`
+    SELECT COUNT(*) FROM reviews_fts JOIN reviews ON reviews.id = reviews_fts.rowid WHERE ${whereClause}
+  `).pluck().get(matchParams) as number;
+  // Lower bm25 means more relevant, so relevance always sorts ascending.
+  const direction = sort === 'relevance' || order === 'asc' ? 'ASC' : 'DESC';
+  const reviews = db.prepare(`
+    SELECT reviews.*, snippet(reviews_fts, -1, '<mark>', '</mark>', '…', 16) as snippet
+    FROM reviews_fts JOIN reviews ON reviews.id = reviews_fts.rowid
+    WHERE ${whereClause}
+    ORDER BY ${REVIEW_SORT_COLUMNS[sort]} ${direction}, reviews.id DESC
+    LIMIT ? OFFSET ?
+  `).all(...matchParams, limit, (page - 1) * limit) as Array<Record<string, unknown> & { id: number }>;
+
+  res.json({
+    query: q,
+    reviews: withReviewDetails(reviews),
+    pagination: { page, limit, total, total_pages: Math.ceil(total / limit) },
+  });
+});
+
+function readReviewWithAspects(reviewId: number) {
+  const review = db.prepare('SELECT * FROM reviews WHERE id = ?').get(reviewId) as Record<string, unknown>;
+  const aspects = db.prepare('SELECT aspect, sentiment, score, evidence FROM review_aspects WHERE review_id = ? ORDER BY id').all(reviewId);
+  return { ...review, keywords: safeJSONParse<string[]>(review.keywords as string, []), aspects };
+}
+
+// Manual correction of a review's labels. A changed sentiment or entity replaces the model's aspects
+// (the old tuples are kept in review_history), so topic counts follow the analyst; a score-only
+// correction leaves them alone. Emotion and intent were read together with the model's sentiment, so a
+// changed sentiment clears them unless the correction sets them too. A correction that changes nothing is
+// ignored; otherwise the review is excluded from any later re-analysis.
+app.patch('/api/reviews/:id', (req, res) => {
+  const reviewId = Number(req.params.id);
+  const review = db.prepare('SELECT id, sentiment, score, entity, emotion, intent FROM reviews WHERE id = ?').get(reviewId) as
+    { id: number; sentiment: SentimentAnalysis['sentiment']; score: number; entity: string; emotion: Emotion | null; intent: Intent | null } | undefined;
+  if (!review) {
+    res.status(404).json({ error: 'Review not found.' });
+    return;
+  }
+  const parsed = ReviewCorrectionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid correction.', details: parsed.error.issues });
+    return;
+  }
+  const { changed_by: changedBy, ...changes } = parsed.data;
+  if (changes.entity !== undefined) {
+    const known = getTaxonomy().find((entry) => entry.name.toLowerCase() === changes.entity!.toLowerCase());
+    if (!known) {
+      res.status(400).json({ error: `Topik "${changes.entity}" tidak ada di taxonomy.` });
+      return;
+    }
+    changes.entity = known.name;
+  }
+
+  const sentimentChanged = changes.sentiment !== undefined && changes.sentiment !== review.sentiment;
+  const next = {
+    ...review,
+    ...changes,
+    emotion: changes.emotion !== undefined ? changes.emotion : sentimentChanged ? null : review.emotion,
+    intent: changes.intent !== undefined ? changes.intent : sentimentChanged ? null : review.intent,
+  };
+  const changedFields = (['sentiment', 'score', 'entity', 'emotion', 'intent'] as const)
+    .filter((field) => String(review[field] ?? '') !== String(next[field] ?? ''));
+  // Saving the labels as they are is not a correction: the model's labels and explanation stay.
+  if (changedFields.length === 0) {
+    res.json({ review: readReviewWithAspects(reviewId) });
+    return;
+  }
+  // Score and sentiment are shown side by side, so they have to agree on which side of 0.5 the review is.
+  if ((changedFields.includes('sentiment') || changedFields.includes('score'))
+    && ((next.sentiment === 'positive' && next.score <= 0.5) || (next.sentiment === 'negative' && next.score >= 0.5))) {
+    res.status(400).json({ error: 'Skor tidak sesuai dengan sentimen: positif harus di atas 0.5, negatif di bawah 0.5.' });
+    return;
+  }
+  const changedAt = nowIso();
+  const insertHistory = db.prepare(`
+    INSERT INTO review_history (review_id, field, old_value, new_value, changed_by, changed_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const relabelled = next.sentiment !== review.sentiment || next.entity !== review.entity;
+  db.transaction(() => {
+    for (const field of changedFields) {
+      insertHistory.run(reviewId, field, String(review[field] ?? ''), String(next[field] ?? ''), changedBy, changedAt);
+    }
+    if (relabelled) {
+      const oldAspects = db.prepare('SELECT aspect, sentiment, score, evidence FROM review_aspects WHERE review_id = ? ORDER BY id').all(reviewId) as AspectSentiment[];
+      const newAspects: AspectSentiment[] = [{ aspect: next.entity, sentiment: next.sentiment, score: next.score, evidence: null }];
+      insertHistory.run(reviewId, 'aspects', JSON.stringify(oldAspects), JSON.stringify(newAspects), changedBy, changedAt);
+      replaceReviewAspects(reviewId, newAspects);
+    }
+    db.prepare(`
+      UPDATE reviews
+      SET sentiment = @sentiment, score = @score, entity = @entity, emotion = @emotion, intent = @intent,
+          analysis_source = 'manual', analysis_model = NULL, prompt_version = NULL,
+          explanation = NULL, keywords = NULL, confidence = NULL
+      WHERE id = @id
+    `).run(next);
+  })();
+
+  res.json({ review: readReviewWithAspects(reviewId) });
+});
+
+app.get('/api/reviews/:id/history', (req, res) => {
+  const history = db.prepare(`
+    SELECT id, field, old_value, new_value, changed_by, changed_at
+    FROM review_history WHERE review_id = ? ORDER BY changed_at DESC, id DESC
+  `).all(Number(req.params.id));
+  res.json(history);
 });
 
 app.delete('/api/data', (req, res) => {
+  // A job finishing after the clear would store reviews pointing at deleted uploads. Maintenance jobs
+  // only rewrite existing rows, so they simply find fewer.
+  const activeAnalysisJob = db.prepare(`
+    SELECT 1 FROM jobs WHERE status IN ('queued', 'running') AND type NOT IN (${MAINTENANCE_JOB_TYPES.map(() => '?').join(', ')}) LIMIT 1
+  `).get(...MAINTENANCE_JOB_TYPES);
+  if (activeAnalysisJob) {
+    res.status(409).json({ error: 'Masih ada analisis yang berjalan. Tunggu sampai selesai sebelum menghapus semua data.' });
+    return;
+  }
   try {
-    db.prepare('DELETE FROM reviews').run();
-    db.prepare("DELETE FROM sqlite_sequence WHERE name = 'reviews'").run();
+    db.transaction(() => {
+      db.prepare('DELETE FROM review_aspects').run();
+      db.prepare('DELETE FROM review_history').run();
+      db.prepare('DELETE FROM review_history_archive').run();
+      db.prepare('DELETE FROM reviews').run();
+      db.prepare('UPDATE jobs SET upload_id = NULL').run();
+      db.prepare('DELETE FROM uploads').run();
+      db.prepare("DELETE FROM sqlite_sequence WHERE name IN ('reviews', 'uploads', 'review_aspects', 'review_history')").run();
+    })();
     res.status(200).send({ message: 'All data cleared.' });
   } catch (error) {
     console.error('Clear data error:', error);
@@ -547,40 +3007,348 @@ app.delete('/api/data', (req, res) => {
   }
 });
 
-app.get('/api/topics', (req, res) => {
-  const topics = db.prepare(`
+// Reviews without a known reach still count once, so weighting never drops them entirely.
+const REACH_WEIGHT_SQL = 'MAX(COALESCE(reach, 0), 1)';
+
+// Stars mapped to the sentiment a reviewer would be expected to express.
+const RATING_SENTIMENT_SQL = `CASE WHEN rating >= 4 THEN 'positive' WHEN rating >= 3 THEN 'neutral' ELSE 'negative' END`;
+
+// Review counts per emotion and per intent; reviews analysed before these labels existed are counted as unclassified.
+app.get('/api/emotions-intents', (_req, res) => {
+  const countBy = (column: 'emotion' | 'intent', labels: readonly string[]) => {
+    const counts = new Map(
+      (db.prepare(`SELECT ${column} as label, COUNT(*) as count FROM reviews WHERE ${column} IS NOT NULL GROUP BY ${column}`).all() as Array<{ label: string; count: number }>)
+        .map((row) => [row.label, row.count])
+    );
+    return labels.map((label) => ({ [column]: label, count: counts.get(label) || 0 }));
+  };
+
+  res.json({
+    emotions: countBy('emotion', EMOTIONS),
+    intents: countBy('intent', INTENTS),
+    unclassified: db.prepare('SELECT COUNT(*) FROM reviews WHERE emotion IS NULL OR intent IS NULL').pluck().get(),
+  });
+});
+
+// Totals over every review. The dashboard's sentiment filter only narrows the review table, since
+// filtering the sentiment split by sentiment would leave a single 100% share.
+app.get('/api/kpis', (_req, res) => {
+  const sentimentTotals = db.prepare(`
     SELECT
-      entity,
       COUNT(*) as total,
       SUM(CASE WHEN sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
       SUM(CASE WHEN sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
-      SUM(CASE WHEN sentiment = 'negative' THEN 1 ELSE 0 END) as negative
+      SUM(CASE WHEN sentiment = 'negative' THEN 1 ELSE 0 END) as negative,
+      AVG(score) as avg_score,
+      SUM(${REACH_WEIGHT_SQL}) as weighted_total,
+      SUM(CASE WHEN sentiment = 'positive' THEN ${REACH_WEIGHT_SQL} ELSE 0 END) as weighted_positive,
+      SUM(CASE WHEN sentiment = 'neutral' THEN ${REACH_WEIGHT_SQL} ELSE 0 END) as weighted_neutral,
+      SUM(CASE WHEN sentiment = 'negative' THEN ${REACH_WEIGHT_SQL} ELSE 0 END) as weighted_negative,
+      SUM(score * ${REACH_WEIGHT_SQL}) / SUM(${REACH_WEIGHT_SQL}) as weighted_avg_score,
+      SUM(COALESCE(reach, 0)) as total_reach
     FROM reviews
-    GROUP BY entity
-    ORDER BY total DESC
-    LIMIT 5;
-  `).all();
-  res.json(topics);
+  `).get() as Record<string, number | null>;
+
+  const platforms = db.prepare(`
+    SELECT
+      platform,
+      COUNT(*) as mentions,
+      SUM(COALESCE(reach, 0)) as reach,
+      SUM(CASE WHEN sentiment = 'positive' THEN ${REACH_WEIGHT_SQL} ELSE 0 END) * 1.0 / SUM(${REACH_WEIGHT_SQL}) as weighted_positive_share,
+      SUM(CASE WHEN sentiment = 'negative' THEN ${REACH_WEIGHT_SQL} ELSE 0 END) * 1.0 / SUM(${REACH_WEIGHT_SQL}) as weighted_negative_share
+    FROM reviews
+    GROUP BY platform
+    ORDER BY reach DESC, mentions DESC
+  `).all() as Array<{ platform: string; mentions: number; reach: number; weighted_positive_share: number; weighted_negative_share: number }>;
+
+  const total = sentimentTotals.total || 0;
+  const totalReach = sentimentTotals.total_reach || 0;
+  const shareOfVoice = platforms.map((platform) => ({
+    ...platform,
+    mention_share: total > 0 ? platform.mentions / total : 0,
+    reach_share: totalReach > 0 ? platform.reach / totalReach : 0,
+  }));
+
+  const ratingRows = db.prepare(`
+    SELECT
+      CAST(ROUND(rating) AS INTEGER) as rating,
+      COUNT(*) as total,
+      SUM(CASE WHEN sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
+      SUM(CASE WHEN sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
+      SUM(CASE WHEN sentiment = 'negative' THEN 1 ELSE 0 END) as negative,
+      SUM(CASE WHEN sentiment = ${RATING_SENTIMENT_SQL} THEN 1 ELSE 0 END) as agreeing
+    FROM reviews
+    WHERE rating IS NOT NULL
+    GROUP BY CAST(ROUND(rating) AS INTEGER)
+    ORDER BY rating
+  `).all() as Array<{ rating: number; total: number; positive: number; neutral: number; negative: number; agreeing: number }>;
+
+  const ratedReviews = ratingRows.reduce((sum, row) => sum + row.total, 0);
+  const agreeingReviews = ratingRows.reduce((sum, row) => sum + row.agreeing, 0);
+  const averageRating = db.prepare('SELECT AVG(rating) FROM reviews WHERE rating IS NOT NULL').pluck().get() as number | null;
+
+  res.json({
+    raw: {
+      total,
+      positive: sentimentTotals.positive || 0,
+      neutral: sentimentTotals.neutral || 0,
+      negative: sentimentTotals.negative || 0,
+      avg_score: sentimentTotals.avg_score || 0,
+    },
+    weighted: {
+      total: sentimentTotals.weighted_total || 0,
+      positive: sentimentTotals.weighted_positive || 0,
+      neutral: sentimentTotals.weighted_neutral || 0,
+      negative: sentimentTotals.weighted_negative || 0,
+      avg_score: sentimentTotals.weighted_avg_score || 0,
+    },
+    total_reach: totalReach,
+    share_of_voice: shareOfVoice,
+    rating_agreement: {
+      rated_reviews: ratedReviews,
+      average_rating: averageRating,
+      agreement_rate: ratedReviews > 0 ? agreeingReviews / ratedReviews : null,
+      by_rating: ratingRows.map(({ agreeing, ...row }) => row),
+    },
+  });
 });
 
-app.get('/api/trends', (req, res) => {
-  const trends = db.prepare(`
+// Topics are counted per aspect, so a mixed review adds to every aspect it mentions. The sentiment
+// filter applies to the aspect labels too, so "negative" counts only the negative mentions of each topic.
+const TopicQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  platform: z.string().trim().min(1).optional(),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional(),
+});
+
+app.get('/api/topics', (req, res) => {
+  const parsed = TopicQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid topic query.', details: parsed.error.issues });
+    return;
+  }
+  const { sentiment, ...filters } = parsed.data;
+  const { conditions, params } = buildReviewFilter(filters);
+  if (sentiment) {
+    conditions.push('review_aspects.sentiment = ?');
+    params.push(sentiment);
+  }
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const topics = db.prepare(`
+    SELECT
+      review_aspects.aspect as entity,
+      COUNT(*) as total,
+      SUM(CASE WHEN review_aspects.sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
+      SUM(CASE WHEN review_aspects.sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
+      SUM(CASE WHEN review_aspects.sentiment = 'negative' THEN 1 ELSE 0 END) as negative,
+      ROUND(AVG(review_aspects.score), 3) as avg_score
+    FROM review_aspects
+    JOIN reviews ON reviews.id = review_aspects.review_id
+    ${whereClause}
+    GROUP BY review_aspects.aspect
+    ORDER BY total DESC, review_aspects.aspect
+    ${parsed.data.limit ? 'LIMIT ?' : ''}
+  `).all(...params, ...(parsed.data.limit ? [parsed.data.limit] : [])) as Array<{ entity: string; total: number; positive: number; neutral: number; negative: number; avg_score: number }>;
+
+  // The quote shown on a topic card comes from the same filtered reviews as its counts.
+  const findTopicEvidence = db.prepare(`
+    SELECT review_aspects.evidence FROM review_aspects
+    JOIN reviews ON reviews.id = review_aspects.review_id
+    WHERE ${['review_aspects.aspect = ?', 'review_aspects.sentiment = ?', 'review_aspects.evidence IS NOT NULL', ...conditions].join(' AND ')}
+    ORDER BY ABS(review_aspects.score - 0.5) DESC, review_aspects.id DESC
+    LIMIT 1
+  `).pluck();
+
+  res.json(topics.map((topic) => ({
+    ...topic,
+    // Share of positive minus share of negative mentions, from -1 to 1.
+    net_sentiment: Math.round(((topic.positive - topic.negative) / topic.total) * 1000) / 1000,
+    positive_evidence: findTopicEvidence.get(topic.entity, 'positive', ...params) ?? null,
+    negative_evidence: findTopicEvidence.get(topic.entity, 'negative', ...params) ?? null,
+  })));
+});
+
+const TrendQuerySchema = z.object({
+  granularity: z.enum(['day', 'week', 'month', 'quarter']).default('month'),
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional(),
+  group_by: z.enum(['platform', 'entity']).optional(),
+});
+
+type TrendRange = { from: string | null; to: string | null; bucketKeys: string[] } | { error: string };
+
+// Defaults to the whole data set; from and to are null when there are no reviews yet.
+const resolveTrendRange = (granularity: TrendGranularity, requestedFrom?: string, requestedTo?: string): TrendRange => {
+  const dataRange = db.prepare('SELECT MIN(date(date)) as first_day, MAX(date(date)) as last_day FROM reviews').get() as
+    { first_day: string | null; last_day: string | null };
+  const from = requestedFrom ?? dataRange.first_day;
+  const to = requestedTo ?? dataRange.last_day;
+  if (!from || !to) return { from, to, bucketKeys: [] };
+  if (from > to) return { error: 'Invalid trend range: from is after to.' };
+
+  const bucketKeys = trendBucketKeys(from, to, granularity);
+  if (!bucketKeys) return { error: `Invalid trend range: more than ${MAX_TREND_BUCKETS} buckets, use a coarser granularity.` };
+  return { from, to, bucketKeys };
+};
+
+// Overall buckets use each review's own labels; entity groups use the aspect labels.
+const queryTrendBuckets = (granularity: TrendGranularity, grouping: 'platform' | 'entity' | null, from: string, to: string) => {
+  const labels = grouping === 'entity' ? 'review_aspects' : 'reviews';
+  const groupSql = grouping === 'entity' ? 'review_aspects.aspect' : grouping === 'platform' ? `COALESCE(reviews.platform, 'Unknown')` : 'NULL';
+  return db.prepare(`
     SELECT
-      strftime('%Y-%m', date) as month,
+      ${TREND_BUCKET_SQL[granularity]} as bucket,
+      ${groupSql} as grp,
       COUNT(*) as count,
+      SUM(COALESCE(reviews.reach, 0)) as reach,
+      SUM(CASE WHEN ${labels}.sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
+      SUM(CASE WHEN ${labels}.sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
+      SUM(CASE WHEN ${labels}.sentiment = 'negative' THEN 1 ELSE 0 END) as negative,
+      ROUND(AVG(${labels}.score), 3) as avg_score
+    FROM reviews
+    ${grouping === 'entity' ? 'JOIN review_aspects ON review_aspects.review_id = reviews.id' : ''}
+    WHERE date(reviews.date) BETWEEN ? AND ?
+    GROUP BY bucket, grp
+  `).all(from, to) as Array<TrendBucket & { grp: string | null }>;
+};
+
+const groupTrendRows = (rows: Array<TrendBucket & { grp: string | null }>): Map<string, TrendBucket[]> => {
+  const rowsByGroup = new Map<string, TrendBucket[]>();
+  for (const row of rows) {
+    const group = row.grp ?? 'Unknown';
+    if (!rowsByGroup.has(group)) rowsByGroup.set(group, []);
+    rowsByGroup.get(group)!.push(row);
+  }
+  return rowsByGroup;
+};
+
+// Sentiment per bucket between from and to (by default the whole data set), with empty buckets filled
+// in so the chart's time axis has no gaps. Grouping by entity counts each aspect of a review with its
+// own sentiment, as the topic cards do.
+app.get('/api/trends', (req, res) => {
+  const parsed = TrendQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid trend query.', details: parsed.error.issues });
+    return;
+  }
+  const { granularity, group_by: groupBy } = parsed.data;
+  const range = resolveTrendRange(granularity, parsed.data.from, parsed.data.to);
+  if ('error' in range) {
+    res.status(400).json({ error: range.error });
+    return;
+  }
+  const { from, to, bucketKeys } = range;
+  if (!from || !to) {
+    res.json({ granularity, from, to, group_by: groupBy ?? null, buckets: [], groups: [] });
+    return;
+  }
+
+  let groups: Array<{ group: string; total: number; buckets: TrendBucket[] }> = [];
+  if (groupBy) {
+    groups = [...groupTrendRows(queryTrendBuckets(granularity, groupBy, from, to)).entries()]
+      .map(([group, rows]) => ({ group, total: rows.reduce((sum, row) => sum + row.count, 0), buckets: fillTrendBuckets(bucketKeys, rows) }))
+      .sort((a, b) => b.total - a.total)
+      .slice(0, MAX_TREND_GROUPS);
+  }
+
+  res.json({
+    granularity,
+    from,
+    to,
+    group_by: groupBy ?? null,
+    buckets: fillTrendBuckets(bucketKeys, queryTrendBuckets(granularity, null, from, to)),
+    groups,
+  });
+});
+
+const PlatformComparisonQuerySchema = z.object({
+  granularity: z.enum(['day', 'week', 'month', 'quarter']).default('month'),
+  from: DateParamSchema.optional(),
+  to: DateParamSchema.optional(),
+  entities: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+// One row per upload platform over the same range: volume, sentiment mix, average score, the most
+// mentioned entities with their own sentiment, and a gap-filled trend line.
+app.get('/api/platforms/compare', (req, res) => {
+  const parsed = PlatformComparisonQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid platform comparison query.', details: parsed.error.issues });
+    return;
+  }
+  const { granularity, entities: entityLimit } = parsed.data;
+  const range = resolveTrendRange(granularity, parsed.data.from, parsed.data.to);
+  if ('error' in range) {
+    res.status(400).json({ error: range.error });
+    return;
+  }
+  const { from, to, bucketKeys } = range;
+  if (!from || !to) {
+    res.json({ granularity, from, to, platforms: [] });
+    return;
+  }
+
+  const platformRows = db.prepare(`
+    SELECT
+      COALESCE(platform, 'Unknown') as platform,
+      COUNT(*) as total,
+      SUM(COALESCE(reach, 0)) as reach,
       SUM(CASE WHEN sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
       SUM(CASE WHEN sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
-      SUM(CASE WHEN sentiment = 'negative' THEN 1 ELSE 0 END) as negative
+      SUM(CASE WHEN sentiment = 'negative' THEN 1 ELSE 0 END) as negative,
+      ROUND(AVG(score), 3) as avg_score
     FROM reviews
-    WHERE date >= strftime('%Y-%m-%d', 'now', '-6 months')
-    GROUP BY month
-    ORDER BY month;
-  `).all();
-  res.json(trends);
+    WHERE date(date) BETWEEN ? AND ?
+    GROUP BY COALESCE(platform, 'Unknown')
+    ORDER BY total DESC
+  `).all(from, to) as Array<{ platform: string; total: number; reach: number; positive: number; neutral: number; negative: number; avg_score: number | null }>;
+
+  const entityRows = db.prepare(`
+    SELECT
+      COALESCE(reviews.platform, 'Unknown') as platform,
+      review_aspects.aspect as entity,
+      COUNT(*) as total,
+      SUM(CASE WHEN review_aspects.sentiment = 'positive' THEN 1 ELSE 0 END) as positive,
+      SUM(CASE WHEN review_aspects.sentiment = 'neutral' THEN 1 ELSE 0 END) as neutral,
+      SUM(CASE WHEN review_aspects.sentiment = 'negative' THEN 1 ELSE 0 END) as negative
+    FROM review_aspects
+    JOIN reviews ON reviews.id = review_aspects.review_id
+    WHERE date(reviews.date) BETWEEN ? AND ?
+    GROUP BY COALESCE(reviews.platform, 'Unknown'), review_aspects.aspect
+    ORDER BY total DESC, review_aspects.aspect
+  `).all(from, to) as Array<{ platform: string; entity: string; total: number; positive: number; neutral: number; negative: number }>;
+
+  const trendRows = groupTrendRows(queryTrendBuckets(granularity, 'platform', from, to));
+  const netSentiment = (row: { total: number; positive: number; negative: number }) =>
+    Math.round(((row.positive - row.negative) / row.total) * 1000) / 1000;
+
+  res.json({
+    granularity,
+    from,
+    to,
+    platforms: platformRows.map((row) => ({
+      ...row,
+      net_sentiment: netSentiment(row),
+      top_entities: entityRows
+        .filter((entity) => entity.platform === row.platform)
+        .slice(0, entityLimit)
+        .map(({ platform, ...entity }) => ({ ...entity, net_sentiment: netSentiment(entity) })),
+      trend: fillTrendBuckets(bucketKeys, trendRows.get(row.platform) ?? []),
+    })),
+  });
 });
 
 app.listen(port, () => {
   console.log(`Server is running on http://localhost:${port}`);
+
+  const pendingJobs = db.prepare("SELECT id FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at").all() as Array<{ id: string }>;
+  if (pendingJobs.length > 0) {
+    console.log(`Resuming ${pendingJobs.length} unfinished job(s)...`);
+    pendingJobs.forEach((job) => enqueueJob(job.id));
+  }
 });
 
 // Serve index.html for all other routes to enable client-side routing
@@ -0,0 +1,63 @@
+// Label vocabulary, result shapes and aspect merging shared by every classifier and by the server.
+
+// Follow-up differs per intent: complaints go to operations, suggestions to the menu team, questions need a reply.
+export const EMOTIONS = ['joy', 'anger', 'disappointment', 'surprise', 'none'] as const;
+export const INTENTS = ['complaint', 'suggestion', 'question', 'praise', 'other'] as const;
+export type Emotion = typeof EMOTIONS[number];
+export type Intent = typeof INTENTS[number];
+
+export interface AspectSentiment {
+  aspect: string;
+  sentiment: "positive" | "neutral" | "negative";
+  score: number;
+  // The part of the review the aspect was read from, when the classifier can point to one.
+  evidence: string | null;
+}
+
+export interface SentimentAnalysis {
+  mentionId: string;
+  sentiment: "positive" | "neutral" | "negative";
+  score: number;
+  // Dominant aspect of the review, kept alongside `aspects` for the single-entity views.
+  entity: string;
+  aspects: AspectSentiment[];
+  // Short reason for the labels and the phrases behind them; null/empty for fallback labels.
+  explanation: string | null;
+  keywords: string[];
+  // How sure the classifier is of the sentiment label, 0-1.
+  confidence: number | null;
+  emotion: Emotion | null;
+  intent: Intent | null;
+}
+
+export interface TaxonomyEntry {
+  name: string;
+  description: string;
+  // Words that indicate the entity; drive the lexicon classifier and are listed in the prompt.
+  keywords: string[];
+  // Alternative labels a model may answer with, mapped back to `name`.
+  synonyms: string[];
+  sort_order: number;
+}
+
+// Catch-all entity. Always present so unknown labels have somewhere to go.
+export const GENERAL_ENTITY = 'General';
+
+// Merges repeated aspects (the most decisive tuple wins) and guarantees at least one tuple,
+// so every stored review is counted under some topic.
+export const finalizeAspects = (
+  aspects: AspectSentiment[],
+  overall: Pick<SentimentAnalysis, 'sentiment' | 'score' | 'entity'>
+): AspectSentiment[] => {
+  const byAspect = new Map<string, AspectSentiment>();
+  for (const aspect of aspects) {
+    const existing = byAspect.get(aspect.aspect);
+    if (!existing || Math.abs(aspect.score - 0.5) > Math.abs(existing.score - 0.5)) {
+      byAspect.set(aspect.aspect, aspect);
+    }
+  }
+  if (byAspect.size === 0) {
+    return [{ aspect: overall.entity, sentiment: overall.sentiment, score: overall.score, evidence: null }];
+  }
+  return [...byAspect.values()];
+};
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { guessColumnMapping, normalizeDateValue, parseCountValue, parseRatingValue, resolveColumnMapping } from './columns';
+
+test('parses exported counts with separators and suffixes', () => {
+  assert.equal(parseCountValue('15,000'), 15000);
+  assert.equal(parseCountValue('15.000'), 15000);
+  assert.equal(parseCountValue('1.234.567'), 1234567);
+  assert.equal(parseCountValue('1.2K'), 1200);
+  assert.equal(parseCountValue('3,4 rb'), 3400);
+  assert.equal(parseCountValue('2 jt'), 2000000);
+  assert.equal(parseCountValue('12x'), null);
+  assert.equal(parseCountValue(null), null);
+});
+
+test('parses star ratings in the usual export formats', () => {
+  assert.equal(parseRatingValue('4'), 4);
+  assert.equal(parseRatingValue('4,5'), 4.5);
+  assert.equal(parseRatingValue('4/5'), 4);
+  assert.equal(parseRatingValue('4 bintang'), 4);
+  assert.equal(parseRatingValue('FIVE'), 5);
+  assert.equal(parseRatingValue('7'), null);
+  assert.equal(parseRatingValue('bad'), null);
+});
+
+test('guesses columns from Indonesian headers', () => {
+  assert.deepEqual(guessColumnMapping(['Ulasan Pelanggan', 'Tanggal', 'Nama', 'Bintang', 'Likes', 'Link', 'Review ID']), {
+    content: 'Ulasan Pelanggan',
+    date: 'Tanggal',
+    author: 'Nama',
+    rating: 'Bintang',
+    reach: 'Likes',
+    url: 'Link',
+    external_id: 'Review ID',
+  });
+});
+
+test('guesses columns from a TikTok scraper export', () => {
+  const mapping = guessColumnMapping(['text', 'createTimeISO', 'authorMeta.name', 'diggCount', 'webVideoUrl', 'cid']);
+  assert.equal(mapping.content, 'text');
+  assert.equal(mapping.date, 'createTimeISO');
+  assert.equal(mapping.author, 'authorMeta.name');
+  assert.equal(mapping.reach, 'diggCount');
+  assert.equal(mapping.rating, undefined);
+});
+
+test('requested columns win over guesses only when the file has them', () => {
+  const mapping = resolveColumnMapping(['a', 'b', 'text'], { content: 'a' }, { content: 'missing', date: 'b' });
+  assert.equal(mapping.content, 'a');
+  assert.equal(mapping.date, 'b');
+});
+
+test('normalizes dates and rejects text that is not one', () => {
+  assert.equal(normalizeDateValue('2025-01-02T10:00:00Z'), '2025-01-02');
+  assert.equal(normalizeDateValue('31/12/2024'), '2024-12-31');
+  assert.equal(normalizeDateValue('1735776000'), '2025-01-02');
+  assert.equal(normalizeDateValue('kemarin'), null);
+  assert.equal(normalizeDateValue(''), null);
+});
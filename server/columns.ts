@@ -0,0 +1,198 @@
+// Reading uploaded rows: which column holds which field, and how dates, counts and ratings are parsed.
+
+export const normalizeDateValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const unix = text.match(/^\d{10,13}$/);
+  if (unix) {
+    const raw = Number(text);
+    const asMs = text.length === 10 ? raw * 1000 : raw;
+    const fromUnix = new Date(asMs);
+    if (!Number.isNaN(fromUnix.getTime())) {
+      const year = fromUnix.getUTCFullYear();
+      if (year >= 2000 && year <= 2100) {
+        return fromUnix.toISOString().slice(0, 10);
+      }
+    }
+  }
+
+  const asDate = new Date(text);
+  if (!Number.isNaN(asDate.getTime())) {
+    const year = asDate.getUTCFullYear();
+    if (year >= 2000 && year <= 2100) {
+      return asDate.toISOString().slice(0, 10);
+    }
+  }
+
+  const ddmmyyyy = text.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+  if (ddmmyyyy) {
+    const day = Number(ddmmyyyy[1]);
+    const month = Number(ddmmyyyy[2]);
+    const year = Number(ddmmyyyy[3]);
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+  }
+
+  const yyyymmdd = text.match(/^(\d{4})[\/-](\d{1,2})[\/-](\d{1,2})$/);
+  if (yyyymmdd) {
+    const year = Number(yyyymmdd[1]);
+    const month = Number(yyyymmdd[2]);
+    const day = Number(yyyymmdd[3]);
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) {
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+  }
+
+  return null;
+};
+
+const normalizeHeader = (key: string): string => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const DATE_KEYS = new Set([
+  'date',
+  'publishdate',
+  'publishedat',
+  'publishedtime',
+  'createdat',
+  'createdtime',
+  'createtime',
+  'timestamp',
+  'time',
+  'datetime',
+  'postdate',
+  'posttime',
+  'uploadtime',
+  'tanggal',
+  'waktu'
+]);
+
+const DATE_HINTS = ['date', 'time', 'created', 'create', 'publish', 'posted', 'timestamp', 'epoch', 'unix', 'tanggal', 'waktu'];
+
+export const getRowDate = (row: Record<string, unknown>): string | null => {
+  const keys = Object.keys(row);
+
+  const exactDateKey = keys.find((key) => DATE_KEYS.has(normalizeHeader(key)));
+  if (exactDateKey) {
+    const normalized = normalizeDateValue(row[exactDateKey]);
+    if (normalized) return normalized;
+  }
+
+  const hintedDateKey = keys.find((key) => {
+    const normalized = normalizeHeader(key);
+    return DATE_HINTS.some((hint) => normalized.includes(hint));
+  });
+  if (hintedDateKey) {
+    const normalized = normalizeDateValue(row[hintedDateKey]);
+    if (normalized) return normalized;
+  }
+
+  for (const key of keys) {
+    const normalized = normalizeDateValue(row[key]);
+    if (normalized) return normalized;
+  }
+
+  return null;
+};
+
+export type MappedField = 'content' | 'date' | 'author' | 'rating' | 'reach' | 'url' | 'external_id';
+export type ColumnMapping = Partial<Record<MappedField, string>>;
+
+// Normalized header names per field, in order of preference.
+const COLUMN_KEYS: Record<Exclude<MappedField, 'date'>, string[]> = {
+  content: [
+    'content', 'text', 'review', 'reviewtext', 'comment', 'commenttext', 'caption', 'ulasan', 'isiulasan', 'komentar',
+    'isikomentar', 'isi', 'pesan', 'message', 'body', 'snippet', 'description', 'deskripsi'
+  ],
+  author: [
+    'author', 'username', 'user', 'name', 'reviewer', 'reviewername', 'reviewerdisplayname', 'displayname', 'ownerusername',
+    'authorname', 'authorusername', 'authormetaname', 'authormetanickname', 'uniqueid', 'nickname', 'akun', 'nama'
+  ],
+  rating: ['rating', 'stars', 'star', 'starrating', 'reviewrating', 'bintang', 'nilai'],
+  reach: [
+    'reach', 'impressions', 'views', 'viewcount', 'playcount', 'likes', 'likecount', 'likescount', 'diggcount',
+    'thumbsupcount', 'jangkauan', 'suka'
+  ],
+  url: ['url', 'link', 'permalink', 'reviewurl', 'posturl', 'sourceurl', 'videourl', 'weburl', 'webvideourl', 'tautan'],
+  external_id: ['externalid', 'reviewid', 'commentid', 'cid', 'postid', 'id'],
+};
+
+const CONTENT_HINTS = ['review', 'comment', 'ulasan', 'komentar', 'text', 'caption'];
+
+export const findColumn = (columns: string[], keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const column = columns.find((candidate) => normalizeHeader(candidate) === key);
+    if (column) return column;
+  }
+  return undefined;
+};
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping => ({
+  content:
+    findColumn(columns, COLUMN_KEYS.content) ||
+    columns.find((column) => CONTENT_HINTS.some((hint) => normalizeHeader(column).includes(hint))),
+  date:
+    columns.find((column) => DATE_KEYS.has(normalizeHeader(column))) ||
+    columns.find((column) => DATE_HINTS.some((hint) => normalizeHeader(column).includes(hint))),
+  author: findColumn(columns, COLUMN_KEYS.author),
+  rating: findColumn(columns, COLUMN_KEYS.rating),
+  reach: findColumn(columns, COLUMN_KEYS.reach),
+  url: findColumn(columns, COLUMN_KEYS.url),
+  external_id: findColumn(columns, COLUMN_KEYS.external_id),
+});
+
+// Requested columns (from the user or a saved preset) win over guesses, as long as the file has them.
+export const resolveColumnMapping = (columns: string[], ...requested: ColumnMapping[]): ColumnMapping => {
+  const resolved = guessColumnMapping(columns);
+  for (const mapping of requested) {
+    for (const [field, column] of Object.entries(mapping) as Array<[MappedField, string | undefined]>) {
+      if (column && columns.includes(column)) resolved[field] = column;
+    }
+  }
+  return resolved;
+};
+
+export const readMappedValue = (row: Record<string, unknown>, column: string | undefined): string | null => {
+  if (!column) return null;
+  const value = String(row[column] ?? '').trim();
+  return value || null;
+};
+
+const COUNT_SUFFIXES: Record<string, number> = { k: 1e3, rb: 1e3, ribu: 1e3, m: 1e6, jt: 1e6, juta: 1e6 };
+
+// Parses exported counts such as "15,000", "1.2K" or "3,4 rb" into an integer.
+export const parseCountValue = (value: string | null): number | null => {
+  if (!value) return null;
+  const match = value.toLowerCase().replace(/\s+/g, '').match(/^([\d.,]+)([a-z]*)$/);
+  if (!match) return null;
+
+  const [, digits, suffix] = match;
+  const multiplier = suffix ? COUNT_SUFFIXES[suffix] : 1;
+  if (!multiplier) return null;
+
+  // With a suffix the separator is a decimal point ("1,2 rb"); without one it groups thousands ("15.000").
+  const numeric = suffix
+    ? Number(digits.replace(',', '.'))
+    : Number(digits.replace(/[.,](?=\d{3}(\D|$))/g, '').replace(',', '.'));
+  return Number.isFinite(numeric) ? Math.round(numeric * multiplier) : null;
+};
+
+const RATING_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+// Star ratings arrive as "4", "4.5", "4/5", "4 bintang" or Google's "FIVE".
+export const parseRatingValue = (value: string | null): number | null => {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+  if (RATING_WORDS[text]) return RATING_WORDS[text];
+
+  const match = text.replace(',', '.').match(/^(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const rating = Number(match[1]);
+  return rating >= 0 && rating <= 5 ? rating : null;
+};
+
+export const parseUrlValue = (value: string | null): string | null =>
+  value && /^https?:\/\//i.test(value) ? value : null;
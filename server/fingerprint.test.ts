@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildReviewFingerprint, createDuplicateCheck } from './fingerprint';
+
+test('ignores case, punctuation and spacing in the content', () => {
+  assert.equal(
+    buildReviewFingerprint('TikTok', 'Kopinya ENAK!!  mantap', '2025-01-02', null),
+    buildReviewFingerprint(' tiktok ', 'kopinya enak mantap', '2025-01-02', null)
+  );
+});
+
+test('platform, date and author tell reviews apart', () => {
+  const base = buildReviewFingerprint('TikTok', 'kopi enak', '2025-01-02', 'budi');
+  assert.notEqual(base, buildReviewFingerprint('Instagram', 'kopi enak', '2025-01-02', 'budi'));
+  assert.notEqual(base, buildReviewFingerprint('TikTok', 'kopi enak', '2025-01-03', 'budi'));
+  assert.notEqual(base, buildReviewFingerprint('TikTok', 'kopi enak', '2025-01-02', 'ani'));
+  assert.equal(base, buildReviewFingerprint('TikTok', 'kopi enak', '2025-01-02', ' Budi '));
+});
+
+test('dateless rows fingerprint the same whatever day they are uploaded', () => {
+  const dateless = buildReviewFingerprint('TikTok', 'kopi enak', null, null);
+  assert.equal(dateless, buildReviewFingerprint('TikTok', 'kopi enak', null, null));
+  assert.notEqual(dateless, buildReviewFingerprint('TikTok', 'kopi enak', '2025-01-02', null));
+});
+
+test('skip mode drops repeats in the file and reviews already stored', () => {
+  const stored = new Set(['stored']);
+  const isDuplicate = createDuplicateCheck('skip', (fingerprint) => stored.has(fingerprint));
+  assert.equal(isDuplicate('new'), false);
+  assert.equal(isDuplicate('new'), true);
+  assert.equal(isDuplicate('stored'), true);
+});
+
+test('overwrite mode keeps stored reviews but still drops repeats in the file', () => {
+  const isDuplicate = createDuplicateCheck('overwrite', () => true);
+  assert.equal(isDuplicate('stored'), false);
+  assert.equal(isDuplicate('stored'), true);
+});
@@ -0,0 +1,27 @@
+import { createHash } from 'crypto';
+
+// Duplicate detection for uploads: the same review exported twice gets the same fingerprint.
+
+export type DuplicateMode = 'skip' | 'overwrite';
+
+export const normalizeReviewText = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Rows without a source date are fingerprinted with an empty date, so re-uploading them on another
+// day still finds the stored copy.
+export const buildReviewFingerprint = (platform: string, content: string, date: string | null, author: string | null): string => {
+  const parts = [platform.trim().toLowerCase(), normalizeReviewText(content), date ?? ''];
+  if (author) parts.push(author.trim().toLowerCase());
+  return createHash('sha1').update(parts.join('|')).digest('hex');
+};
+
+// Repeats inside the file are always dropped; repeats of stored reviews are only analyzed again
+// when the caller asked to overwrite them. Returns a check to call once per row, in file order.
+export const createDuplicateCheck = (duplicateMode: DuplicateMode, isStored: (fingerprint: string) => boolean) => {
+  const seen = new Set<string>();
+  return (fingerprint: string): boolean => {
+    const isDuplicate = seen.has(fingerprint) || (duplicateMode === 'skip' && isStored(fingerprint));
+    seen.add(fingerprint);
+    return isDuplicate;
+  };
+};
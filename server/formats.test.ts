@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { parseUploadBody } from './formats';
+
+const body = (text: string) => Buffer.from(text, 'utf8');
+
+test('detects CSV and skips a byte order mark', async () => {
+  const parsed = await parseUploadBody(body('\uFEFFcontent,date\n"kopi enak, mantap",2025-01-02\npelayanan lelet,2025-01-03\n'));
+  assert.equal(parsed.format, 'csv');
+  assert.deepEqual(parsed.rows[0], { content: 'kopi enak, mantap', date: '2025-01-02' });
+  assert.equal(parsed.totalRows, 2);
+});
+
+test('detects TSV from the header line', async () => {
+  const parsed = await parseUploadBody(body('content\tdate\nkopi enak, mantap\t2025-01-02\n'));
+  assert.equal(parsed.format, 'tsv');
+  assert.deepEqual(parsed.rows, [{ content: 'kopi enak, mantap', date: '2025-01-02' }]);
+});
+
+test('detects XLSX by its ZIP signature', async () => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Reviews');
+  sheet.addRow(['content', 'rating']);
+  sheet.addRow(['kopi enak', 5]);
+  sheet.addRow(['pelayanan lelet', 2]);
+  const parsed = await parseUploadBody(Buffer.from(await workbook.xlsx.writeBuffer()));
+  assert.equal(parsed.format, 'xlsx');
+  assert.deepEqual(parsed.rows, [{ content: 'kopi enak', rating: '5' }, { content: 'pelayanan lelet', rating: '2' }]);
+});
+
+test('detects JSON arrays and wrapped arrays, flattening nested fields', async () => {
+  const parsed = await parseUploadBody(body(JSON.stringify({
+    reviews: [{ comment: 'kopi enak', reviewer: { displayName: 'Budi' }, tags: ['kopi', 'enak'] }],
+  })));
+  assert.equal(parsed.format, 'json');
+  assert.deepEqual(parsed.rows, [{ comment: 'kopi enak', 'reviewer.displayName': 'Budi', tags: 'kopi, enak' }]);
+});
+
+test('detects NDJSON and reports the failing line', async () => {
+  const parsed = await parseUploadBody(body('{"text":"kopi enak"}\n{"text":"pelayanan lelet"}\n'));
+  assert.equal(parsed.format, 'ndjson');
+  assert.deepEqual(parsed.rows, [{ text: 'kopi enak' }, { text: 'pelayanan lelet' }]);
+  await assert.rejects(parseUploadBody(body('{"text":"a"}\n{"text":\n')), /line 2/);
+});
+
+test('stops at maxRows but still counts the whole file', async () => {
+  const csv = await parseUploadBody(body('content\na\nb\nc\n'), 2);
+  assert.equal(csv.rows.length, 2);
+  assert.equal(csv.totalRows, 3);
+  const ndjson = await parseUploadBody(body('{"t":1}\n{"t":2}\n{"t":3}\n'), 1);
+  assert.equal(ndjson.rows.length, 1);
+  assert.equal(ndjson.totalRows, 3);
+});
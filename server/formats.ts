@@ -0,0 +1,123 @@
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+
+// Upload bodies are detected from their content, not the file name: XLSX by its ZIP signature, JSON and
+// NDJSON by a leading bracket, and CSV or TSV by whichever separator the header line uses more.
+export type UploadFormat = 'csv' | 'tsv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface ParsedUpload {
+  format: UploadFormat;
+  rows: Array<Record<string, unknown>>;
+  // Rows in the whole file when parsing stopped at maxRows; counted from lines for CSV, TSV and NDJSON.
+  totalRows: number;
+}
+
+const XLSX_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]); // XLSX files are ZIP archives
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Nested exports (e.g. Google Business Profile's reviewer.displayName) become dotted column names.
+const flattenRecord = (record: Record<string, unknown>, prefix = '', target: Record<string, unknown> = {}) => {
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      flattenRecord(value, path, target);
+    } else if (Array.isArray(value)) {
+      target[path] = value.every((item) => !isPlainObject(item) && !Array.isArray(item)) ? value.join(', ') : JSON.stringify(value);
+    } else {
+      target[path] = value;
+    }
+  }
+  return target;
+};
+
+// Accepts a top-level array, or an object wrapping one (e.g. { "reviews": [...] }).
+const extractJsonRecords = (data: unknown): Array<Record<string, unknown>> => {
+  if (Array.isArray(data)) return data.filter(isPlainObject);
+  if (isPlainObject(data)) {
+    const nested = Object.values(data).find((value) => Array.isArray(value) && value.some(isPlainObject));
+    return nested ? (nested as unknown[]).filter(isPlainObject) : [data];
+  }
+  return [];
+};
+
+const countDataLines = (text: string, headerLines: number): number =>
+  Math.max(0, text.split(/\r?\n/).filter((line) => line.trim()).length - headerLines);
+
+const parseDelimitedText = (text: string, maxRows: number): Array<Record<string, unknown>> => {
+  const result = Papa.parse<Record<string, unknown>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    ...(Number.isFinite(maxRows) ? { preview: maxRows } : {}),
+  });
+  return result.data;
+};
+
+const parseWorkbook = async (buffer: Buffer, maxRows: number): Promise<ParsedUpload> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { format: 'xlsx', rows: [], totalRows: 0 };
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column] = cell.text.trim();
+  });
+
+  const rows: Array<Record<string, unknown>> = [];
+  let totalRows = 0;
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    totalRows++;
+    if (rows.length >= maxRows) return;
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, column) => {
+      if (!header) return;
+      const cell = row.getCell(column);
+      record[header] = cell.value instanceof Date ? cell.value.toISOString() : cell.text;
+    });
+    if (Object.values(record).some((value) => String(value ?? '').trim())) rows.push(record);
+  });
+  return { format: 'xlsx', rows, totalRows: Number.isFinite(maxRows) ? totalRows : rows.length };
+};
+
+// Stops after maxRows data rows where the format allows it, so a preview does not parse the whole file.
+export const parseUploadBody = async (buffer: Buffer, maxRows = Infinity): Promise<ParsedUpload> => {
+  if (buffer.subarray(0, XLSX_SIGNATURE.length).equals(XLSX_SIGNATURE)) {
+    return parseWorkbook(buffer, maxRows);
+  }
+
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let records: Array<Record<string, unknown>> | null = null;
+    try {
+      records = extractJsonRecords(JSON.parse(trimmed));
+    } catch {
+      // Not a single JSON document: one object per line (NDJSON / JSON Lines).
+    }
+    if (records) {
+      return { format: 'json', rows: records.slice(0, maxRows).map((record) => flattenRecord(record)), totalRows: records.length };
+    }
+    const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+    const rows = lines
+      .slice(0, maxRows)
+      .map((line, index) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1}`);
+        }
+      })
+      .filter(isPlainObject)
+      .map((record) => flattenRecord(record));
+    return { format: 'ndjson', rows, totalRows: Number.isFinite(maxRows) ? lines.length : rows.length };
+  }
+
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] || '';
+  const format: UploadFormat = firstLine.split('\t').length > firstLine.split(',').length ? 'tsv' : 'csv';
+  const rows = parseDelimitedText(text, maxRows);
+  return { format, rows, totalRows: Number.isFinite(maxRows) ? countDataLines(text, 1) : rows.length };
+};
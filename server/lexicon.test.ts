@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildLexiconVocabulary, classifyWithLexicon, classifyWithMock, extractLexiconAspects } from './lexicon';
+
+const taxonomy = [
+  { name: 'Service', keywords: ['pelayanan', 'lelet', 'ramah', 'lama'] },
+  { name: 'Quality', keywords: ['kopi', 'enak', 'rasa'] },
+  { name: 'Price', keywords: ['harga', 'mahal', 'murah'] },
+  { name: 'General', keywords: [] },
+];
+
+test('splits mixed reviews into per-aspect sentiment', () => {
+  const aspects = extractLexiconAspects('kopinya enak tapi pelayanan lelet', taxonomy);
+  assert.deepEqual(aspects.map(({ aspect, sentiment }) => ({ aspect, sentiment })), [
+    { aspect: 'Quality', sentiment: 'positive' },
+    { aspect: 'Service', sentiment: 'negative' },
+  ]);
+  // The clause after "tapi" carries the verdict.
+  assert.equal(classifyWithLexicon('kopinya enak tapi pelayanan lelet', taxonomy).sentiment, 'negative');
+});
+
+test('flips negated terms', () => {
+  const result = classifyWithLexicon('kopi tidak enak', taxonomy);
+  assert.equal(result.sentiment, 'negative');
+  assert.equal(result.entity, 'Quality');
+  assert.ok(result.keywords.includes('tidak enak'));
+  assert.equal(classifyWithLexicon('kopi enak banget', taxonomy).sentiment, 'positive');
+});
+
+test('intensifiers push the score further from neutral', () => {
+  const plain = classifyWithLexicon('kopi enak', taxonomy).score;
+  const intensified = classifyWithLexicon('kopi enak banget', taxonomy).score;
+  assert.ok(intensified > plain);
+});
+
+test('falls back to neutral General with low confidence when nothing matches', () => {
+  const result = classifyWithLexicon('jam buka sampai jam 10', taxonomy);
+  assert.equal(result.sentiment, 'neutral');
+  assert.equal(result.entity, 'General');
+  assert.equal(result.confidence, 0.3);
+  assert.deepEqual(extractLexiconAspects('jam buka sampai jam 10', taxonomy), []);
+});
+
+test('reads emotion and intent from cues before falling back to the sentiment', () => {
+  assert.equal(classifyWithLexicon('apakah buka hari minggu?', taxonomy).intent, 'question');
+  assert.equal(classifyWithLexicon('saran tambah menu dong', taxonomy).intent, 'suggestion');
+  const angry = classifyWithLexicon('kesal pelayanan lama', taxonomy);
+  assert.equal(angry.emotion, 'anger');
+  assert.equal(angry.intent, 'complaint');
+});
+
+test('vocabulary includes taxonomy keywords', () => {
+  const vocabulary = buildLexiconVocabulary(taxonomy);
+  assert.ok(vocabulary.has('pelayanan'));
+  assert.ok(vocabulary.has('enak'));
+});
+
+test('mock labels are deterministic per text', () => {
+  assert.deepEqual(classifyWithMock('kopi enak', taxonomy), classifyWithMock('kopi enak', taxonomy));
+  const result = classifyWithMock('kopi enak', taxonomy);
+  assert.ok(taxonomy.some((entry) => entry.name === result.entity));
+  assert.equal(result.score, { positive: 0.8, neutral: 0.5, negative: 0.2 }[result.sentiment]);
+});
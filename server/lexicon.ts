@@ -0,0 +1,189 @@
+// Offline classifiers: keyword rules and the deterministic mock. They take the taxonomy as an argument
+// instead of reading it from the database, so they give the same result in the server and in tests.
+import {
+  type AspectSentiment,
+  type Emotion,
+  type Intent,
+  type SentimentAnalysis,
+  type TaxonomyEntry,
+  EMOTIONS,
+  GENERAL_ENTITY,
+  INTENTS,
+} from './analysis';
+
+// Only the fields the rules read, so tests can pass a hand-written taxonomy.
+export type LexiconTopic = Pick<TaxonomyEntry, 'name' | 'keywords'>;
+
+// Keyword rules mirrored from the Gemini prompt, so offline results follow the same conventions.
+const POSITIVE_TERMS = [
+  'bagus', 'enak', 'mantap', 'mantul', 'puas', 'recommended', 'rekomendasi', 'keren', 'love', 'suka', 'luar biasa',
+  'ramah', 'cepat', 'nikmat', 'lezat', 'top', 'oke', 'ok', 'sip', 'sipp', 'good', 'great', 'nice', 'amazing',
+  'delicious', 'best', 'friendly', 'cozy', 'nyaman', 'worth', 'murah', 'terbaik', 'juara', 'favorit', 'perfect', 'bersih',
+  'strategis', 'gampang', 'mudah'
+];
+
+const NEGATIVE_TERMS = [
+  'jelek', 'lambat', 'lelet', 'gajelas', 'ga jelas', 'gak jelas', 'tidak jelas', 'mahal', 'kecewa', 'buruk', 'tidak puas', 'mengecewakan',
+  'payah', 'lama', 'ribet', 'zonk', 'kotor', 'jorok', 'tidak enak', 'ga enak', 'gak enak', 'hambar', 'pahit banget',
+  'bad', 'slow', 'expensive', 'disappointed', 'disappointing', 'dirty', 'rude', 'worst', 'jutek', 'berisik', 'panas', 'sempit'
+];
+
+export const NEGATION_TERMS = new Set(['tidak', 'tak', 'ga', 'gak', 'nggak', 'enggak', 'kurang', 'bukan', 'not', 'no', 'never']);
+export const INTENSIFIER_TERMS = new Set(['banget', 'bgt', 'sekali', 'sangat', 'very', 'so', 'really', 'parah', 'pol']);
+export const CONTRAST_TERMS = new Set(['tapi', 'tetapi', 'namun', 'but', 'cuma', 'sayang', 'sayangnya']);
+
+// Explicit emotion cues, checked in this order; without one the emotion follows the sentiment.
+const EMOTION_TERMS: Record<Exclude<Emotion, 'none'>, string[]> = {
+  anger: ['kesal', 'kesel', 'marah', 'emosi', 'sebel', 'nyebelin', 'kapok', 'keterlaluan', 'angry', 'annoying', 'furious'],
+  disappointment: ['kecewa', 'mengecewakan', 'sayangnya', 'zonk', 'nyesel', 'menyesal', 'disappointed', 'disappointing'],
+  surprise: ['wow', 'wah', 'kaget', 'ternyata', 'gak nyangka', 'ga nyangka', 'nggak nyangka', 'tak disangka', 'surprised', 'unexpected', 'surprisingly'],
+  joy: ['senang', 'seneng', 'bahagia', 'happy', 'asik', 'asyik', 'seru'],
+};
+
+export const QUESTION_TERMS = ['apakah', 'kapan', 'berapa', 'dimana', 'gimana', 'bagaimana', 'kenapa', 'mengapa', 'how', 'what', 'when', 'where', 'why'];
+const SUGGESTION_TERMS = [
+  'saran', 'sebaiknya', 'seharusnya', 'harusnya', 'semoga', 'tolong', 'mohon', 'ditambah', 'tambahin', 'lebih baik',
+  'should', 'please', 'hopefully', 'suggest', 'suggestion'
+];
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Every single word the rules match on; entity keywords come from the taxonomy.
+export const buildLexiconVocabulary = (taxonomy: LexiconTopic[]): Set<string> =>
+  new Set(
+    [...POSITIVE_TERMS, ...NEGATIVE_TERMS, ...Object.values(EMOTION_TERMS).flat(), ...SUGGESTION_TERMS, ...taxonomy.flatMap((entry) => entry.keywords)]
+      .flatMap((term) => term.split(' '))
+  );
+
+// Returns the start index of every occurrence of a (possibly multi-word) term in the token list.
+const findTerm = (tokens: string[], term: string): number[] => {
+  const parts = term.split(' ');
+  const matches: number[] = [];
+  for (let i = 0; i + parts.length <= tokens.length; i++) {
+    if (parts.every((part, offset) => tokens[i + offset] === part)) matches.push(i);
+  }
+  return matches;
+};
+
+export const classifyWithLexicon = (content: string, taxonomy: LexiconTopic[]): Omit<SentimentAnalysis, 'mentionId' | 'aspects'> => {
+  // Content arrives normalized, so clitics like "kopinya" are already reduced to "kopi".
+  const tokens = tokenize(content);
+  const contrastIndex = tokens.findIndex((token) => CONTRAST_TERMS.has(token));
+
+  // Clauses after "tapi"/"but" usually carry the reviewer's actual verdict, so they weigh more.
+  const weightAt = (index: number) => {
+    let weight = contrastIndex >= 0 && index > contrastIndex ? 1.5 : 1;
+    if (INTENSIFIER_TERMS.has(tokens[index + 1]) || INTENSIFIER_TERMS.has(tokens[index - 1])) weight += 0.5;
+    return weight;
+  };
+  const isNegated = (index: number) =>
+    NEGATION_TERMS.has(tokens[index - 1]) || NEGATION_TERMS.has(tokens[index - 2]);
+
+  let polarity = 0;
+  const claimed = new Set<number>();
+  const matched = { positive: new Set<string>(), negative: new Set<string>() };
+  const applyTerms = (terms: string[], direction: 1 | -1) => {
+    // Longer phrases first so "tidak enak" is not also counted as "enak".
+    for (const term of [...terms].sort((a, b) => b.split(' ').length - a.split(' ').length)) {
+      for (const index of findTerm(tokens, term)) {
+        if (claimed.has(index)) continue;
+        const length = term.split(' ').length;
+        for (let offset = 0; offset < length; offset++) claimed.add(index + offset);
+        const negated = !term.includes(' ') && isNegated(index);
+        polarity += (negated ? -direction : direction) * weightAt(index);
+        const phrase = negated ? tokens.slice(Math.max(0, index - 2), index + 1).join(' ') : term;
+        matched[(negated ? -direction : direction) > 0 ? 'positive' : 'negative'].add(phrase);
+      }
+    }
+  };
+  applyTerms(NEGATIVE_TERMS, -1);
+  applyTerms(POSITIVE_TERMS, 1);
+
+  // Taxonomy order doubles as precedence: on a tie the earlier entity wins.
+  const entityHits = taxonomy.map(({ name, keywords }) => ({
+    entity: name,
+    hits: keywords.reduce((total, term) => total + findTerm(tokens, term).length, 0),
+  }));
+  const topEntity = entityHits.reduce((best, current) => (current.hits > best.hits ? current : best));
+
+  const sentiment: SentimentAnalysis['sentiment'] = polarity > 0 ? 'positive' : polarity < 0 ? 'negative' : 'neutral';
+  const score = Math.round((0.5 + 0.5 * Math.tanh(polarity / 2)) * 100) / 100;
+  const entity = topEntity.hits > 0 ? topEntity.entity : GENERAL_ENTITY;
+  const entityTerms = topEntity.hits > 0
+    ? taxonomy.find((entry) => entry.name === entity)!.keywords.filter((term) => findTerm(tokens, term).length > 0)
+    : [];
+
+  const hasAny = (terms: string[]) => terms.some((term) => findTerm(tokens, term).length > 0);
+  const explicitEmotion = (Object.keys(EMOTION_TERMS) as Array<keyof typeof EMOTION_TERMS>).find((emotion) => hasAny(EMOTION_TERMS[emotion]));
+  const emotion: Emotion = explicitEmotion ?? (sentiment === 'positive' ? 'joy' : sentiment === 'negative' ? 'disappointment' : 'none');
+  // Questions and suggestions are recognised by their wording; otherwise the sentiment decides.
+  const intent: Intent = content.includes('?') || QUESTION_TERMS.includes(tokens[0])
+    ? 'question'
+    : hasAny(SUGGESTION_TERMS)
+      ? 'suggestion'
+      : sentiment === 'negative' ? 'complaint' : sentiment === 'positive' ? 'praise' : 'other';
+
+  const reasons = [
+    matched.positive.size > 0 ? `kata positif: ${[...matched.positive].join(', ')}` : '',
+    matched.negative.size > 0 ? `kata negatif: ${[...matched.negative].join(', ')}` : '',
+    entityTerms.length > 0 ? `topik ${entity} dari: ${entityTerms.join(', ')}` : '',
+  ].filter(Boolean);
+
+  return {
+    sentiment,
+    score,
+    entity,
+    explanation: reasons.length > 0 ? `Aturan lexicon — ${reasons.join('; ')}.` : 'Tidak ada kata sentimen atau topik yang dikenali.',
+    keywords: [...new Set([...matched.positive, ...matched.negative, ...entityTerms])].slice(0, 10),
+    // A wider margin between positive and negative hits means a more certain label; no hits at all is a guess.
+    confidence: matched.positive.size + matched.negative.size === 0
+      ? 0.3
+      : Math.round((0.5 + 0.5 * Math.tanh(Math.abs(polarity) / 2)) * 100) / 100,
+    emotion,
+    intent,
+  };
+};
+
+// Reviews switch aspects at punctuation and conjunctions, so each clause is classified on its own.
+const ASPECT_CLAUSE_SPLIT = /[.,;!?\n]+|\b(?:tapi|tetapi|namun|but|cuma|sayangnya|sayang|dan|and|serta|plus)\b/i;
+
+export const extractLexiconAspects = (content: string, taxonomy: LexiconTopic[]): AspectSentiment[] =>
+  content
+    .split(ASPECT_CLAUSE_SPLIT)
+    .map((clause) => clause.trim())
+    .filter(Boolean)
+    .flatMap((clause) => {
+      const analysis = classifyWithLexicon(clause, taxonomy);
+      if (analysis.entity === GENERAL_ENTITY) return [];
+      return [{ aspect: analysis.entity, sentiment: analysis.sentiment, score: analysis.score, evidence: clause }];
+    });
+
+// Stable string hash (FNV-1a) so the mock provider returns the same label for the same text on every run.
+export const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const MOCK_SENTIMENTS: SentimentAnalysis['sentiment'][] = ['positive', 'neutral', 'negative'];
+const MOCK_SCORES: Record<SentimentAnalysis['sentiment'], number> = { positive: 0.8, neutral: 0.5, negative: 0.2 };
+
+// Deterministic labels from a hash of the text, for demos and pipeline tests without a model.
+export const classifyWithMock = (content: string, taxonomy: LexiconTopic[]): Omit<SentimentAnalysis, 'mentionId' | 'aspects'> => {
+  const hash = hashText(content);
+  const sentiment = MOCK_SENTIMENTS[hash % MOCK_SENTIMENTS.length];
+  return {
+    sentiment,
+    score: MOCK_SCORES[sentiment],
+    entity: taxonomy[(hash >>> 8) % taxonomy.length].name,
+    explanation: 'Label mock, ditentukan dari hash teks review.',
+    keywords: [],
+    confidence: 1,
+    emotion: EMOTIONS[(hash >>> 4) % EMOTIONS.length],
+    intent: INTENTS[(hash >>> 12) % INTENTS.length],
+  };
+};
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeWithDictionary, stripAffixes } from './normalization';
+
+const slang = new Map([['bgt', 'banget'], ['gak', 'tidak'], ['tdk', 'tidak'], ['👍', 'bagus']]);
+const vocabulary = new Set(['enak', 'kopi', 'mahal', 'tempat', 'tidak', 'banget', 'bagus', 'oke']);
+const isKnown = (word: string) => vocabulary.has(word) || slang.has(word);
+const normalize = (text: string) => normalizeWithDictionary(text, slang, isKnown);
+
+test('expands slang and emoji', () => {
+  assert.equal(normalize('Kopi enak bgt 👍'), 'kopi enak banget bagus');
+  assert.equal(normalize('gak enak'), 'tidak enak');
+});
+
+test('ignores emoji modifiers when looking up emoji', () => {
+  assert.equal(normalize('👍🏻'), 'bagus');
+});
+
+test('collapses stretched letters', () => {
+  assert.equal(normalize('enakkkk'), 'enak');
+  assert.equal(normalize('okee'), 'oke');
+  // A trailing double letter stays when dropping it does not give a known word.
+  assert.equal(normalize('jazz'), 'jazz');
+});
+
+test('strips affixes only down to known words', () => {
+  assert.equal(normalize('kopinya mahal'), 'kopi mahal');
+  assert.equal(stripAffixes('kemahalan', isKnown), 'mahal');
+  assert.equal(stripAffixes('sekolah', isKnown), null);
+});
+
+test('keeps punctuation attached and collapses whitespace', () => {
+  assert.equal(normalize('  Tempatnya   oke ,  enak!  '), 'tempat oke, enak!');
+});
@@ -0,0 +1,52 @@
+// Pure text normalization; the slang dictionary and known-word vocabulary are passed in by the caller.
+
+const AFFIX_SUFFIXES = ['nya', 'ny', 'lah', 'kah', 'pun', 'mu', 'ku'];
+const AFFIX_PREFIXES = ['ter', 'ke', 'di', 'se'];
+
+// Strips an affix only when what remains is a known word, so "punya" or "sekolah" are left alone.
+// "kemahalan" is reduced through the ke-...-an confix.
+export const stripAffixes = (word: string, isKnown: (candidate: string) => boolean): string | null => {
+  const candidates: string[] = [];
+  for (const suffix of AFFIX_SUFFIXES) {
+    if (word.endsWith(suffix)) candidates.push(word.slice(0, -suffix.length));
+  }
+  for (const prefix of AFFIX_PREFIXES) {
+    if (!word.startsWith(prefix)) continue;
+    const base = word.slice(prefix.length);
+    candidates.push(base);
+    for (const suffix of [...AFFIX_SUFFIXES, 'an']) {
+      if (base.endsWith(suffix)) candidates.push(base.slice(0, -suffix.length));
+    }
+  }
+  return candidates.find((candidate) => candidate.length >= 3 && isKnown(candidate)) ?? null;
+};
+
+export const normalizeWord = (token: string, slang: Map<string, string>, isKnown: (candidate: string) => boolean): string => {
+  // "enakkkk" -> "enak"; a trailing double letter ("okee", "enakk") is only dropped when that yields a known word.
+  const word = token.replace(/(\p{L})\1{2,}/gu, '$1');
+  const variants = /(\p{L})\1$/u.test(word) ? [word, word.slice(0, -1)] : [word];
+  for (const variant of variants) {
+    const replacement = slang.get(variant);
+    if (replacement !== undefined) return replacement;
+    if (isKnown(variant)) return variant;
+    const stem = stripAffixes(variant, isKnown);
+    if (stem) return slang.get(stem) ?? stem;
+  }
+  return word;
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+const NORMALIZATION_TOKEN = /\p{Extended_Pictographic}|[\p{L}\p{N}]+/gu;
+
+// Lowercases, expands slang and emoji, collapses stretched letters and strips affixes down to known words.
+export const normalizeWithDictionary = (text: string, slang: Map<string, string>, isKnown: (candidate: string) => boolean): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    // Variation selectors, joiners and skin tones, so "👍🏻" looks up the same entry as "👍".
+    .replace(/[\u{FE0E}\u{FE0F}\u{200D}\u{1F3FB}-\u{1F3FF}]/gu, '')
+    .replace(NORMALIZATION_TOKEN, (token) =>
+      EMOJI_PATTERN.test(token) ? ` ${slang.get(token) ?? ''} ` : normalizeWord(token, slang, isKnown))
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;:!?])/g, '$1')
+    .trim();
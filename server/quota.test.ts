@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimiter, getRetryDelayMs, isDailyQuotaError } from './quota';
+
+// Sleeping moves the fake time forward at once and logs each wait.
+const fakeClock = () => {
+  const clock = {
+    time: 0,
+    waits: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.waits.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+};
+
+test('lets a full bucket through, then spaces requests by the refill rate', async () => {
+  const clock = fakeClock();
+  const limiter = createRateLimiter(2, clock);
+  await limiter.acquire();
+  await limiter.acquire();
+  assert.deepEqual(clock.waits, []);
+  await limiter.acquire();
+  assert.deepEqual(clock.waits, [30_000]);
+});
+
+test('serves callers in arrival order', async () => {
+  const clock = fakeClock();
+  const limiter = createRateLimiter(1, clock);
+  const order: number[] = [];
+  await Promise.all([1, 2, 3].map((caller) => limiter.acquire().then(() => order.push(caller))));
+  assert.deepEqual(order, [1, 2, 3]);
+  assert.equal(clock.time, 120_000);
+});
+
+test('a pause blocks callers, then lets a single request through', async () => {
+  const clock = fakeClock();
+  const limiter = createRateLimiter(60, clock);
+  limiter.pauseFor(5_000);
+  await limiter.acquire();
+  assert.equal(clock.time, 5_000);
+  await limiter.acquire();
+  assert.equal(clock.time, 6_000);
+});
+
+test('reads the retry delay from RetryInfo', () => {
+  const error = { errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '33s' }] };
+  assert.equal(getRetryDelayMs(error), 33_000);
+  assert.equal(getRetryDelayMs({ message: 'Too Many Requests' }), null);
+});
+
+test('tells daily quota errors from per-minute limits', () => {
+  const quotaFailure = (quotaId: string) => ({
+    errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId }] }],
+    // Per-minute 429s also say "quota exceeded"; the violation decides.
+    message: '[429 Too Many Requests] You exceeded your current quota',
+  });
+  assert.equal(isDailyQuotaError(quotaFailure('GenerateRequestsPerDayPerProjectPerModel-FreeTier')), true);
+  assert.equal(isDailyQuotaError(quotaFailure('GenerateRequestsPerMinutePerProjectPerModel-FreeTier')), false);
+});
+
+test('falls back to the error text without QuotaFailure details', () => {
+  assert.equal(isDailyQuotaError({ message: 'Quota exceeded for metric: generate_content_free_tier_requests' }), true);
+  assert.equal(isDailyQuotaError({ message: 'Resource has been exhausted (e.g. check quota).' }), false);
+});
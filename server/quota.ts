@@ -0,0 +1,77 @@
+// Request pacing and 429 handling for the Gemini API.
+
+export interface RateLimiter {
+  acquire: () => Promise<void>;
+  // Blocks every caller until `ms` has passed, e.g. for a Retry-After from the API.
+  pauseFor: (ms: number) => void;
+}
+
+// Time source of the limiter; tests pass a fake one so no test waits for real minutes.
+export interface RateLimiterClock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const systemClock: RateLimiterClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export const createRateLimiter = (requestsPerMinute: number, clock: RateLimiterClock = systemClock): RateLimiter => {
+  const capacity = Math.max(1, requestsPerMinute);
+  const refillPerMs = requestsPerMinute / 60_000;
+  let tokens = capacity;
+  let lastRefill = clock.now();
+  let blockedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const take = async () => {
+    for (;;) {
+      const now = clock.now();
+      if (blockedUntil > now) {
+        await clock.sleep(blockedUntil - now);
+        continue;
+      }
+      tokens = Math.min(capacity, tokens + Math.max(0, now - lastRefill) * refillPerMs);
+      lastRefill = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await clock.sleep(Math.ceil((1 - tokens) / refillPerMs));
+    }
+  };
+
+  return {
+    // Callers are served in arrival order so one job cannot starve another.
+    acquire: () => {
+      const turn = queue.then(take);
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+    // After the pause a single request may go; the bucket refills from there.
+    pauseFor: (ms) => {
+      blockedUntil = Math.max(blockedUntil, clock.now() + ms);
+      tokens = 1;
+      lastRefill = blockedUntil;
+    },
+  };
+};
+
+// Gemini returns google.rpc details with 429s: RetryInfo carries the wait ("33s"), QuotaFailure names the quota.
+const findErrorDetail = (error: any, type: string) =>
+  (Array.isArray(error?.errorDetails) ? error.errorDetails : []).find((detail: any) => String(detail?.['@type']).endsWith(`.${type}`));
+
+export const getRetryDelayMs = (error: any): number | null => {
+  const seconds = parseFloat(findErrorDetail(error, 'RetryInfo')?.retryDelay);
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : null;
+};
+
+// Prefers the structured QuotaFailure violations; errors without them (older API versions, proxies)
+// are matched on their text as before.
+export const isDailyQuotaError = (error: any): boolean => {
+  const violations: any[] = findErrorDetail(error, 'QuotaFailure')?.violations || [];
+  if (violations.length > 0) return violations.some((violation) => /PerDay/i.test(violation?.quotaId || ''));
+  const errorText = `${JSON.stringify(error?.errorDetails || '')} ${error?.message || ''}`.toLowerCase();
+  return errorText.includes('perday') || errorText.includes('quota exceeded') || errorText.includes('freetier');
+};
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSearchExpression } from './search';
+
+const normalize = (text: string) => text.replace(/\bgak\b/g, 'tidak');
+
+test('requires every word', () => {
+  assert.equal(buildSearchExpression('kopi enak', normalize), '"kopi" AND "enak"');
+});
+
+test('keeps quoted phrases together', () => {
+  assert.equal(buildSearchExpression('"tempat nyaman" kopi', normalize), '"tempat nyaman" AND "kopi"');
+});
+
+test('turns a trailing * into a prefix query', () => {
+  assert.equal(buildSearchExpression('kop*', normalize), '"kop" *');
+});
+
+test('also matches the normalized form of slang', () => {
+  assert.equal(buildSearchExpression('"gak enak"', normalize), '("gak enak" OR normalized_content : "tidak enak")');
+});
+
+test('drops FTS syntax and returns null without searchable words', () => {
+  assert.equal(buildSearchExpression('kopi) OR (', normalize), '"kopi" AND "or"');
+  assert.equal(buildSearchExpression('"" * -', normalize), null);
+});
@@ -0,0 +1,17 @@
+// Turns search box input into an FTS5 expression. "Quoted phrases" stay phrases, a trailing * makes a
+// prefix query and other words must all appear. Slang is also looked up in its normalized form, so
+// "gak enak" finds "tdk enak" too. Returns null when the input has no searchable words.
+export const buildSearchExpression = (query: string, normalize: (text: string) => string): string | null => {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const isPhrase = match[1] !== undefined;
+    const text = (match[1] ?? match[2]).toLowerCase();
+    const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+    if (words.length === 0) continue;
+    const isPrefix = !isPhrase && text.endsWith('*');
+    const phrase = `"${words.join(' ')}"${isPrefix ? ' *' : ''}`;
+    const normalized = isPrefix ? '' : (normalize(words.join(' ')).match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+    terms.push(normalized && normalized !== words.join(' ') ? `(${phrase} OR normalized_content : "${normalized}")` : phrase);
+  }
+  return terms.length > 0 ? terms.join(' AND ') : null;
+};
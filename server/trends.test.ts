@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_TREND_BUCKETS, fillTrendBuckets, nextTrendBucket, trendBucketKeys, trendBucketStart } from './trends';
+
+test('buckets start on the first day of their period', () => {
+  assert.equal(trendBucketStart('2025-07-17', 'day'), '2025-07-17');
+  // 2025-07-17 is a Thursday; weeks start on Monday.
+  assert.equal(trendBucketStart('2025-07-17', 'week'), '2025-07-14');
+  assert.equal(trendBucketStart('2025-07-13', 'week'), '2025-07-07');
+  assert.equal(trendBucketStart('2025-07-17', 'month'), '2025-07-01');
+  assert.equal(trendBucketStart('2025-08-17', 'quarter'), '2025-07-01');
+});
+
+test('next bucket rolls over months and years', () => {
+  assert.equal(nextTrendBucket('2025-12-31', 'day'), '2026-01-01');
+  assert.equal(nextTrendBucket('2025-12-29', 'week'), '2026-01-05');
+  assert.equal(nextTrendBucket('2025-12-01', 'month'), '2026-01-01');
+  assert.equal(nextTrendBucket('2025-10-01', 'quarter'), '2026-01-01');
+});
+
+test('bucket keys cover the whole range', () => {
+  assert.deepEqual(trendBucketKeys('2025-01-15', '2025-04-01', 'month'), ['2025-01-01', '2025-02-01', '2025-03-01', '2025-04-01']);
+  assert.deepEqual(trendBucketKeys('2025-05-01', '2025-05-01', 'quarter'), ['2025-04-01']);
+});
+
+test('bucket keys are refused beyond the maximum', () => {
+  assert.equal(trendBucketKeys('2000-01-01', '2025-01-01', 'day'), null);
+  // 2000-01-01 plus 999 days is the last day that still fits.
+  assert.equal(trendBucketKeys('2000-01-01', '2002-09-26', 'day')!.length, MAX_TREND_BUCKETS);
+});
+
+test('missing buckets are filled with zeros', () => {
+  const row = { bucket: '2025-02-01', count: 3, reach: 10, positive: 2, neutral: 0, negative: 1, avg_score: 0.6 };
+  assert.deepEqual(fillTrendBuckets(['2025-01-01', '2025-02-01'], [row]), [
+    { bucket: '2025-01-01', count: 0, reach: 0, positive: 0, neutral: 0, negative: 0, avg_score: null },
+    row,
+  ]);
+});
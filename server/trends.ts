@@ -0,0 +1,61 @@
+export type TrendGranularity = 'day' | 'week' | 'month' | 'quarter';
+
+// Buckets are keyed by their first day; weeks start on Monday.
+export const TREND_BUCKET_SQL: Record<TrendGranularity, string> = {
+  day: `date(reviews.date)`,
+  week: `date(reviews.date, 'weekday 0', '-6 days')`,
+  month: `strftime('%Y-%m-01', reviews.date)`,
+  quarter: `printf('%s-%02d-01', strftime('%Y', reviews.date), (CAST(strftime('%m', reviews.date) AS INTEGER) - 1) / 3 * 3 + 1)`,
+};
+
+export const MAX_TREND_BUCKETS = 1000;
+// Only the busiest groups get their own series; the chart becomes unreadable beyond that.
+export const MAX_TREND_GROUPS = 8;
+
+export const trendBucketStart = (day: string, granularity: TrendGranularity): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  if (granularity === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  if (granularity === 'month' || granularity === 'quarter') date.setUTCDate(1);
+  if (granularity === 'quarter') date.setUTCMonth(Math.floor(date.getUTCMonth() / 3) * 3);
+  return date.toISOString().slice(0, 10);
+};
+
+export const nextTrendBucket = (start: string, granularity: TrendGranularity): string => {
+  const date = new Date(`${start}T00:00:00Z`);
+  if (granularity === 'day') date.setUTCDate(date.getUTCDate() + 1);
+  if (granularity === 'week') date.setUTCDate(date.getUTCDate() + 7);
+  if (granularity === 'month') date.setUTCMonth(date.getUTCMonth() + 1);
+  if (granularity === 'quarter') date.setUTCMonth(date.getUTCMonth() + 3);
+  return date.toISOString().slice(0, 10);
+};
+
+// Start of every bucket from the one containing `from` up to `to`, or null when there are more than MAX_TREND_BUCKETS.
+export const trendBucketKeys = (from: string, to: string, granularity: TrendGranularity): string[] | null => {
+  const bucketKeys: string[] = [];
+  for (let bucket = trendBucketStart(from, granularity); bucket <= to; bucket = nextTrendBucket(bucket, granularity)) {
+    bucketKeys.push(bucket);
+    if (bucketKeys.length > MAX_TREND_BUCKETS) return null;
+  }
+  return bucketKeys;
+};
+
+export interface TrendBucket {
+  bucket: string;
+  count: number;
+  reach: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avg_score: number | null;
+}
+
+// Empty buckets are filled in so a chart's time axis has no gaps.
+export const fillTrendBuckets = (bucketKeys: string[], rows: TrendBucket[]): TrendBucket[] => {
+  const byBucket = new Map(rows.map((row) => [row.bucket, row]));
+  return bucketKeys.map((bucket) => {
+    const row = byBucket.get(bucket);
+    return row
+      ? { bucket, count: row.count, reach: row.reach, positive: row.positive, neutral: row.neutral, negative: row.negative, avg_score: row.avg_score }
+      : { bucket, count: 0, reach: 0, positive: 0, neutral: 0, negative: 0, avg_score: null };
+  });
+};
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateModelOutput } from './validation';
+
+const mentions = [{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }];
+
+const item = (mentionId: string, overrides: Record<string, unknown> = {}) => ({
+  mentionId,
+  sentiment: 'positive',
+  score: 0.8,
+  entity: 'Quality',
+  aspects: [{ aspect: 'Quality', sentiment: 'positive', score: 0.8, evidence: ' kopinya enak ' }],
+  explanation: 'Memuji rasa kopi.',
+  keywords: ['enak'],
+  confidence: 0.9,
+  emotion: 'joy',
+  intent: 'praise',
+  ...overrides,
+});
+
+test('keeps valid items and sends only the broken ones to repair', () => {
+  const text = JSON.stringify([
+    item('m1'),
+    item('m2', { score: 1.4 }),
+    item('m3', { sentiment: 'mixed' }),
+  ]);
+  const { valid, invalid } = validateModelOutput(text, mentions);
+  assert.deepEqual(valid.map((analysis) => analysis.mentionId), ['m1']);
+  assert.deepEqual(invalid, [{ id: 'm2' }, { id: 'm3' }]);
+  assert.equal(valid[0].aspects[0].evidence, 'kopinya enak');
+});
+
+test('items missing from the answer are invalid', () => {
+  const { valid, invalid } = validateModelOutput(JSON.stringify([item('m2')]), mentions);
+  assert.deepEqual(valid.map((analysis) => analysis.mentionId), ['m2']);
+  assert.deepEqual(invalid, [{ id: 'm1' }, { id: 'm3' }]);
+});
+
+test('an unparseable answer sends the whole batch to repair', () => {
+  assert.deepEqual(validateModelOutput('[{"mentionId": "m1",', mentions), { valid: [], invalid: mentions });
+  assert.deepEqual(validateModelOutput(JSON.stringify(item('m1')), mentions), { valid: [], invalid: mentions });
+});
+
+test('reads answers wrapped in a markdown code fence', () => {
+  const { valid } = validateModelOutput('```json\n' + JSON.stringify([item('m1')]) + '\n```', [{ id: 'm1' }]);
+  assert.equal(valid.length, 1);
+});
+
+test('optional fields default and missing aspects fall back to the entity', () => {
+  const { valid } = validateModelOutput(JSON.stringify([{ mentionId: 'm1', sentiment: 'negative', score: 0.2, entity: 'Service' }]), [{ id: 'm1' }]);
+  assert.deepEqual(valid[0], {
+    mentionId: 'm1',
+    sentiment: 'negative',
+    score: 0.2,
+    entity: 'Service',
+    aspects: [{ aspect: 'Service', sentiment: 'negative', score: 0.2, evidence: null }],
+    explanation: null,
+    keywords: [],
+    confidence: null,
+    emotion: null,
+    intent: null,
+  });
+});
+
+test('repeated aspects keep the most decisive tuple', () => {
+  const aspects = [
+    { aspect: 'Service', sentiment: 'negative', score: 0.4, evidence: null },
+    { aspect: 'Service', sentiment: 'negative', score: 0.1, evidence: 'lelet banget' },
+  ];
+  const { valid } = validateModelOutput(JSON.stringify([item('m1', { aspects })]), [{ id: 'm1' }]);
+  assert.deepEqual(valid[0].aspects, [{ aspect: 'Service', sentiment: 'negative', score: 0.1, evidence: 'lelet banget' }]);
+});
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { type SentimentAnalysis, EMOTIONS, INTENTS, finalizeAspects } from './analysis';
+
+// Checks of a model's batch answer. Every item is checked on its own, so one malformed answer no longer
+// sends the whole batch to fallback, and out-of-range scores or unknown sentiments are rejected instead
+// of silently coerced.
+
+const SentimentLabelSchema = z.enum(['positive', 'neutral', 'negative']);
+
+const AspectOutputSchema = z.object({
+  aspect: z.string().trim().min(1),
+  sentiment: SentimentLabelSchema,
+  score: z.number().min(0).max(1),
+  evidence: z.string().nullish().transform((value) => value?.trim() || null),
+});
+
+const AnalysisOutputSchema = z.object({
+  mentionId: z.string(),
+  sentiment: SentimentLabelSchema,
+  score: z.number().min(0).max(1),
+  entity: z.string().trim().min(1),
+  aspects: z.array(AspectOutputSchema).default([]),
+  // Optional so custom prompts without them still validate; when present they must be well-formed.
+  explanation: z.string().nullish().transform((value) => value?.trim() || null),
+  keywords: z.array(z.string().trim().min(1)).max(10).nullish().transform((value) => value ?? []),
+  confidence: z.number().min(0).max(1).nullish().transform((value) => value ?? null),
+  emotion: z.enum(EMOTIONS).nullish().transform((value) => value ?? null),
+  intent: z.enum(INTENTS).nullish().transform((value) => value ?? null),
+});
+
+// Splits a model response into valid analyses and the mentions that need another attempt.
+export const validateModelOutput = <M extends { id: string }>(text: string, mentions: M[]): { valid: SentimentAnalysis[]; invalid: M[] } => {
+  let items: unknown[];
+  try {
+    const parsed = JSON.parse(text.replace(/```json\n?|```\n?/g, '').trim());
+    if (!Array.isArray(parsed)) throw new Error('Response is not an array');
+    items = parsed;
+  } catch (error: any) {
+    console.error(`Failed to parse batch response: ${error.message}`);
+    return { valid: [], invalid: mentions };
+  }
+
+  const valid: SentimentAnalysis[] = [];
+  const invalid: M[] = [];
+  for (const mention of mentions) {
+    const raw = items.find((item: any) => item && item.mentionId === mention.id);
+    const parsed = AnalysisOutputSchema.safeParse(raw);
+    if (!parsed.success) {
+      const reason = raw === undefined ? 'missing from response' : parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      console.warn(`Invalid model output for ${mention.id}: ${reason}`);
+      invalid.push(mention);
+      continue;
+    }
+    // tsconfig is not strict, so zod infers every field as optional.
+    const { aspects, ...analysis } = parsed.data as SentimentAnalysis;
+    valid.push({ ...analysis, aspects: finalizeAspects(aspects, analysis) });
+  }
+  return { valid, invalid };
+};
@@ -30,7 +30,15 @@ import {
   Database as DatabaseIcon,
   Trash2,
   FileText,
-  AlertCircle
+  AlertCircle,
+  ExternalLink,
+  Star,
+  Pencil,
+  History,
+  Check,
+  X,
+  ChevronUp,
+  ChevronDown
 } from 'lucide-react';
 
 import { 
@@ -68,21 +76,304 @@ type Page = 'home' | 'data-management' | 'reviews';
 
 type SentimentType = 'positive' | 'neutral' | 'negative';
 
+interface AspectSentiment {
+  aspect: string;
+  sentiment: SentimentType;
+  score: number;
+  evidence: string | null;
+}
+
 interface SentimentAnalysis {
   mentionId: string;
   sentiment: SentimentType;
   score: number;
   entity: string;
+  aspects?: AspectSentiment[];
+  analysisSource?: 'ai' | 'cache' | 'fallback' | 'manual' | null;
+  analysisModel?: string | null;
+  promptVersion?: string | null;
+  explanation?: string | null;
+  keywords?: string[];
+  confidence?: number | null;
+  emotion?: Emotion | null;
+  intent?: Intent | null;
 }
 
+interface ReviewHistoryEntry {
+  id: number;
+  // 'aspect' rows are written when a taxonomy change relabels one of the review's aspects; 'aspects'
+  // values are JSON lists of the tuples a correction replaced.
+  field: 'sentiment' | 'score' | 'entity' | 'emotion' | 'intent' | 'aspect' | 'aspects';
+  old_value: string | null;
+  new_value: string | null;
+  changed_by: string;
+  changed_at: string;
+}
+
+const formatHistoryValue = (entry: ReviewHistoryEntry, value: string | null) => {
+  if (entry.field !== 'aspects' || !value) return value || '-';
+  try {
+    const aspects = JSON.parse(value) as Array<{ aspect: string, sentiment: string }>;
+    return aspects.map((aspect) => `${aspect.aspect}/${aspect.sentiment}`).join(', ') || '-';
+  } catch {
+    return value;
+  }
+};
+
 interface TopicItem {
   entity: string;
   total: number;
   positive: number;
   neutral: number;
   negative: number;
+  avg_score: number | null;
+  // Share of positive minus share of negative mentions, from -1 to 1.
+  net_sentiment: number;
+  positive_evidence?: string | null;
+  negative_evidence?: string | null;
+}
+
+type DuplicateMode = 'skip' | 'overwrite';
+
+interface TaxonomyEntry {
+  name: string;
+  description: string;
+  keywords: string[];
+  synonyms: string[];
+  sort_order: number;
+}
+
+interface SlangEntry {
+  term: string;
+  replacement: string;
+  updated_at: string;
+}
+
+interface UploadJob {
+  id: string;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  platform: string | null;
+  file_name: string | null;
+  total_rows: number;
+  processed_rows: number;
+  total_batches: number;
+  completed_batches: number;
+  ai_count: number;
+  fallback_count: number;
+  cache_count: number;
+  validated_count: number;
+  parse_failure_count: number;
+  duplicate_mode: DuplicateMode;
+  new_count: number;
+  duplicate_count: number;
+  updated_count: number;
+  message: string | null;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  eta_seconds: number | null;
+}
+
+interface UploadRecord {
+  id: number;
+  file_name: string | null;
+  platform: string | null;
+  total_rows: number;
+  new_count: number;
+  duplicate_count: number;
+  updated_count: number;
+  ai_count: number;
+  fallback_count: number;
+  cache_count: number;
+  validated_count: number;
+  parse_failure_count: number;
+  created_at: string;
+  review_count: number;
+  job_id: string | null;
+  job_type: string | null;
+  job_status: UploadJob['status'] | null;
+}
+
+type ColumnMapping = Partial<Record<'content' | 'date' | 'author' | 'reach' | 'rating' | 'url' | 'external_id', string>>;
+
+interface UploadPreview {
+  format: 'csv' | 'tsv' | 'xlsx' | 'json' | 'ndjson';
+  columns: string[];
+  rows: Record<string, unknown>[];
+  // Counted from lines, not parsed, for CSV, TSV and NDJSON.
+  total_rows: number;
+  total_rows_estimated: boolean;
+  mapping: ColumnMapping;
+  has_preset: boolean;
+  // Previewed values per column that are not a recognizable date.
+  invalid_dates: Record<string, string[]>;
+}
+
+interface QuotaStatus {
+  provider: string;
+  model: string;
+  rate_limited: boolean;
+  day: string;
+  resets_at: string;
+  requests_per_minute: number | null;
+  tokens_per_day: number | null;
+  requests_today: number;
+  rate_limited_today: number;
+  tokens_used: number;
+  tokens_remaining: number | null;
+  exhausted: boolean;
+  tokens_per_review: number;
+  estimated_reviews_remaining: number | null;
+}
+
+interface PendingImport {
+  fileName: string;
+  platform: string;
+  body: File;
+  preview: UploadPreview;
+}
+
+interface SentimentTotals {
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avg_score: number;
+}
+
+interface ShareOfVoiceItem {
+  platform: string;
+  mentions: number;
+  reach: number;
+  mention_share: number;
+  reach_share: number;
+  weighted_positive_share: number;
+  weighted_negative_share: number;
+}
+
+type Emotion = 'joy' | 'anger' | 'disappointment' | 'surprise' | 'none';
+type Intent = 'complaint' | 'suggestion' | 'question' | 'praise' | 'other';
+
+interface EmotionIntentBreakdown {
+  emotions: Array<{ emotion: Emotion, count: number }>;
+  intents: Array<{ intent: Intent, count: number }>;
+  unclassified: number;
+}
+
+interface KpiData {
+  raw: SentimentTotals;
+  weighted: SentimentTotals;
+  total_reach: number;
+  share_of_voice: ShareOfVoiceItem[];
+  rating_agreement: {
+    rated_reviews: number;
+    average_rating: number | null;
+    agreement_rate: number | null;
+    by_rating: Array<{ rating: number, total: number, positive: number, neutral: number, negative: number }>;
+  };
+}
+
+type KpiMode = 'raw' | 'weighted';
+
+// 'relevance' only applies while searching.
+type ReviewSortField = 'relevance' | 'date' | 'score' | 'platform';
+
+// Sort order, filters and search text of the review tables; applied by /api/data (or /api/search
+// when `q` is set), which return one page at a time.
+interface ReviewQuery {
+  sort: ReviewSortField;
+  order: 'asc' | 'desc';
+  platform: string;
+  entity: string;
+  from: string;
+  to: string;
+  q: string;
+}
+
+type TrendGranularity = 'day' | 'week' | 'month' | 'quarter';
+
+interface TrendBucket {
+  // First day of the bucket; weeks start on Monday.
+  bucket: string;
+  count: number;
+  reach: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avg_score: number | null;
+}
+
+interface TrendData {
+  granularity: TrendGranularity;
+  from: string | null;
+  to: string | null;
+  group_by: 'platform' | 'entity' | null;
+  buckets: TrendBucket[];
+  groups: Array<{ group: string, total: number, buckets: TrendBucket[] }>;
+}
+
+// Empty from/to means the whole data set; empty group_by means no per-group series.
+interface TrendQuery {
+  granularity: TrendGranularity;
+  from: string;
+  to: string;
+  group_by: '' | 'platform' | 'entity';
+}
+
+interface PlatformEntity {
+  entity: string;
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  net_sentiment: number;
+}
+
+interface PlatformComparisonItem {
+  platform: string;
+  total: number;
+  reach: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avg_score: number | null;
+  net_sentiment: number;
+  top_entities: PlatformEntity[];
+  trend: TrendBucket[];
+}
+
+interface PlatformComparison {
+  granularity: TrendGranularity;
+  from: string | null;
+  to: string | null;
+  platforms: PlatformComparisonItem[];
+}
+
+// Empty from/to means the whole data set.
+interface PlatformQuery {
+  granularity: TrendGranularity;
+  from: string;
+  to: string;
+}
+
+const DEFAULT_PLATFORM_QUERY: PlatformQuery = { granularity: 'month', from: '', to: '' };
+
+// Scope of the topic cards and table; empty values mean no filter.
+interface TopicQuery {
+  platform: string;
+  sentiment: '' | SentimentType;
+  from: string;
+  to: string;
 }
 
+const DEFAULT_TOPIC_QUERY: TopicQuery = { platform: '', sentiment: '', from: '', to: '' };
+
+const DEFAULT_TREND_QUERY: TrendQuery = { granularity: 'month', from: '', to: '', group_by: '' };
+
+const DEFAULT_REVIEW_QUERY: ReviewQuery = { sort: 'date', order: 'desc', platform: '', entity: '', from: '', to: '', q: '' };
+
 interface DashboardInsights {
   summary: string;
   recommendations: string[];
@@ -91,12 +382,82 @@ interface DashboardInsights {
 
 const formatPct = (value: number) => `${value.toFixed(1)}%`;
 
+const compactNumberFormat = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+const formatCompact = (value: number) => compactNumberFormat.format(value);
+
+const TREND_BUCKET_FORMATS: Record<TrendGranularity, Intl.DateTimeFormat> = {
+  day: new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: '2-digit', timeZone: 'UTC' }),
+  week: new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: '2-digit', timeZone: 'UTC' }),
+  month: new Intl.DateTimeFormat('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+  quarter: new Intl.DateTimeFormat('en-GB', { year: 'numeric', timeZone: 'UTC' }),
+};
+
+const formatTrendBucket = (bucket: string, granularity: TrendGranularity) => {
+  const date = new Date(`${bucket}T00:00:00Z`);
+  const label = TREND_BUCKET_FORMATS[granularity].format(date);
+  return granularity === 'quarter' ? `Q${Math.floor(date.getUTCMonth() / 3) + 1} ${label}` : label;
+};
+
+const TREND_GRANULARITY_UNITS: Record<TrendGranularity, string> = { day: 'Days', week: 'Weeks', month: 'Months', quarter: 'Quarters' };
+
+const TREND_GRANULARITY_OPTIONS: Array<{ value: TrendGranularity, label: string }> = [
+  { value: 'day', label: 'Harian' },
+  { value: 'week', label: 'Mingguan' },
+  { value: 'month', label: 'Bulanan' },
+  { value: 'quarter', label: 'Kuartalan' },
+];
+
+const TREND_GROUP_COLORS = ['#7A2E0E', '#6E7C3A', '#B0412E', '#B86934', '#B8A486', '#3F5E7A', '#8A5A83', '#4E8C7A'];
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
+
+// Reads a JSON API response and turns failures (including a missing backend on static hosts) into a readable message.
+const readApiResponse = async (response: Response, requestUrl: string): Promise<{ result: any, errorMessage: string | null }> => {
+  const rawResult = await response.text();
+  const result = rawResult.trim()
+    ? (() => {
+        try {
+          return JSON.parse(rawResult);
+        } catch {
+          return null;
+        }
+      })()
+    : null;
+
+  if (response.ok) return { result, errorMessage: null };
+
+  const isRelativeApiUrl = requestUrl.startsWith('/api/');
+  const isNetlifyHost =
+    typeof window !== 'undefined' && window.location.hostname.includes('netlify.app');
+  const isNotFoundPage = response.status === 404;
+  const looksLikeHtmlErrorPage = /<html|<!doctype html>|<title>/i.test(rawResult);
+  const errorMessage =
+    (isNotFoundPage
+      ? isRelativeApiUrl || isNetlifyHost || looksLikeHtmlErrorPage
+        ? 'API backend tidak ditemukan. Kamu deploy frontend di Netlify, tapi endpoint API belum tersambung. Set environment variable VITE_API_BASE_URL ke URL backend production kamu (contoh Render/Railway), lalu redeploy.'
+        : 'Endpoint upload CSV tidak ditemukan (404). Pastikan URL backend benar.'
+      : null) ||
+    (result && typeof result === 'object' && 'error' in result && typeof (result as any).error === 'string'
+      ? (result as any).error
+      : null) ||
+    (rawResult.trim() ? rawResult : null) ||
+    `Server responded with status ${response.status}`;
+  return { result, errorMessage };
+};
+
+const isJobFinished = (job: UploadJob) => job.status === 'completed' || job.status === 'failed';
+
 const getDashboardInsights = async (
-  allMentions: Mention[],
-  allAnalyses: SentimentAnalysis[],
-  topTopics: TopicItem[]
+  totals: SentimentTotals,
+  allTopics: TopicItem[],
+  kpis: KpiData | null
 ): Promise<DashboardInsights> => {
-  const totalReviews = allMentions.length;
+  const totalReviews = totals.total;
 
   if (!totalReviews) {
     return {
@@ -106,23 +467,22 @@ const getDashboardInsights = async (
     };
   }
 
-  const sentimentCounts = allAnalyses.reduce((acc, analysis) => {
-    acc[analysis.sentiment] += 1;
-    return acc;
-  }, { positive: 0, neutral: 0, negative: 0 } as Record<SentimentType, number>);
+  const sentimentCounts: Record<SentimentType, number> = { positive: totals.positive, neutral: totals.neutral, negative: totals.negative };
 
   const positivePct = (sentimentCounts.positive / totalReviews) * 100;
   const neutralPct = (sentimentCounts.neutral / totalReviews) * 100;
   const negativePct = (sentimentCounts.negative / totalReviews) * 100;
   const netSentiment = ((sentimentCounts.positive - sentimentCounts.negative) / totalReviews) * 100;
 
-  const sortedByNegative = [...topTopics].sort((a, b) => (b.negative || 0) - (a.negative || 0));
-  const sortedByPositive = [...topTopics].sort((a, b) => (b.positive || 0) - (a.positive || 0));
+  // Risks and strengths are looked for across every topic, not only the most discussed ones.
+  const sortedByNegative = [...allTopics].sort((a, b) => (b.negative || 0) - (a.negative || 0));
+  const sortedByPositive = [...allTopics].sort((a, b) => (b.positive || 0) - (a.positive || 0));
   const mainRiskTopic = sortedByNegative[0];
   const strongestTopic = sortedByPositive[0];
-  const topicList = topTopics.map((topic) => topic.entity).join(', ');
+  const topicList = allTopics.slice(0, 5).map((topic) => topic.entity).join(', ');
+  const longTailNote = allTopics.length > 5 ? ` (dari ${allTopics.length} topik)` : '';
 
-  const summary = `Dari ${totalReviews} ulasan, sentimen didominasi positif (${formatPct(positivePct)}), dengan sentimen bersih ${formatPct(netSentiment)}. Lima topik utama yang paling sering dibahas: ${topicList || 'belum tersedia'}. Isu negatif terbesar saat ini berada pada topik ${mainRiskTopic?.entity || 'General'} (${mainRiskTopic?.negative || 0} ulasan negatif), sementara kekuatan utama brand ada di topik ${strongestTopic?.entity || 'General'} (${strongestTopic?.positive || 0} ulasan positif).`;
+  const summary = `Dari ${totalReviews} ulasan, sentimen didominasi positif (${formatPct(positivePct)}), dengan sentimen bersih ${formatPct(netSentiment)}. Lima topik utama yang paling sering dibahas${longTailNote}: ${topicList || 'belum tersedia'}. Isu negatif terbesar saat ini berada pada topik ${mainRiskTopic?.entity || 'General'} (${mainRiskTopic?.negative || 0} ulasan negatif), sementara kekuatan utama brand ada di topik ${strongestTopic?.entity || 'General'} (${strongestTopic?.positive || 0} ulasan positif).`;
 
   const recommendations = [
     mainRiskTopic
@@ -134,7 +494,16 @@ const getDashboardInsights = async (
     'Monitor perubahan sentimen setelah upload data terbaru untuk melihat dampak perbaikan secara berkala.'
   ];
 
-  const trendAnalysis = `Ringkasan sentimen: Positif ${formatPct(positivePct)}, Netral ${formatPct(neutralPct)}, Negatif ${formatPct(negativePct)}. KPI menunjukkan total ${totalReviews} ulasan dengan fokus analisis pada 5 topik teratas.`;
+  const weightedNegativePct = kpis && kpis.weighted.total > 0 ? (kpis.weighted.negative / kpis.weighted.total) * 100 : null;
+  const weightedNote = weightedNegativePct !== null && kpis && kpis.total_reach > 0
+    ? ` Jika dibobot berdasarkan reach, porsi negatif menjadi ${formatPct(weightedNegativePct)}.`
+    : '';
+  const ratingAgreement = kpis?.rating_agreement.agreement_rate;
+  const ratingNote = ratingAgreement !== null && ratingAgreement !== undefined
+    ? ` Label AI sesuai dengan rating bintang pada ${formatPct(ratingAgreement * 100)} ulasan berbintang.`
+    : '';
+
+  const trendAnalysis = `Ringkasan sentimen: Positif ${formatPct(positivePct)}, Netral ${formatPct(neutralPct)}, Negatif ${formatPct(negativePct)}.${weightedNote}${ratingNote} KPI menunjukkan total ${totalReviews} ulasan yang tersebar di ${allTopics.length} topik.`;
 
   return {
     summary,
@@ -151,58 +520,45 @@ export default function App() {
   const [loading, setLoading] = useState(true);
   const [activeSection, setActiveSection] = useState('about');
   const [summary, setSummary] = useState<any>(null);
-  const [topics, setTopics] = useState<any[]>([]);
-  const [trends, setTrends] = useState<any[]>([]);
+  const [topics, setTopics] = useState<TopicItem[]>([]);
+  const [topicQuery, setTopicQuery] = useState<TopicQuery>(DEFAULT_TOPIC_QUERY);
+  const topicsRequestRef = React.useRef(0);
+  const [trends, setTrends] = useState<TrendData | null>(null);
+  const [trendQuery, setTrendQuery] = useState<TrendQuery>(DEFAULT_TREND_QUERY);
+  const [platformComparison, setPlatformComparison] = useState<PlatformComparison | null>(null);
+  const [platformQuery, setPlatformQuery] = useState<PlatformQuery>(DEFAULT_PLATFORM_QUERY);
+  const platformsRequestRef = React.useRef(0);
+  const trendsRequestRef = React.useRef(0);
+  const [kpis, setKpis] = useState<KpiData | null>(null);
+  const [kpiMode, setKpiMode] = useState<KpiMode>('raw');
+  const [emotionIntent, setEmotionIntent] = useState<EmotionIntentBreakdown | null>(null);
+  const [retryJob, setRetryJob] = useState<UploadJob | null>(null);
+  const retryPollRef = React.useRef<number | null>(null);
   const [sentimentFilter, setSentimentFilter] = useState<string | null>(null);
   const [currentPageNum, setCurrentPageNum] = useState(1);
+  const [reviewQuery, setReviewQuery] = useState<ReviewQuery>(DEFAULT_REVIEW_QUERY);
+  const [totalReviews, setTotalReviews] = useState(0);
+  const reviewsRequestRef = React.useRef(0);
+  const [expandedReviewId, setExpandedReviewId] = useState<string | null>(null);
   const reviewsPerPage = 15;
 
-  const fetchData = async (filter: string | null = sentimentFilter) => {
+  const fetchDashboard = async () => {
     setLoading(true);
     try {
-      const sentimentQuery = filter ? `?sentiment=${filter}` : '';
-      const [dataRes, topicsRes, trendsRes] = await Promise.all([
-        fetch(buildApiUrl(`/api/data${sentimentQuery}`)),
+      const [topicsRes, kpisRes, emotionIntentRes] = await Promise.all([
         fetch(buildApiUrl('/api/topics')),
-        fetch(buildApiUrl('/api/trends'))
+        fetch(buildApiUrl('/api/kpis')),
+        fetch(buildApiUrl('/api/emotions-intents'))
       ]);
       
-      const data = await dataRes.json();
-      const topicsData = await topicsRes.json();
-      const trendsData = await trendsRes.json();
-      
-      setTopics(topicsData);
-      setTrends(trendsData);
-      setSummary(data.summary);
+      // Unfiltered, so the executive summary always covers every topic.
+      const topicsData: TopicItem[] = await topicsRes.json();
+      const kpisData: KpiData = await kpisRes.json();
+      const emotionIntentData: EmotionIntentBreakdown = await emotionIntentRes.json();
       
-      if (data.reviews && data.reviews.length > 0) {
-        const dbMentions: Mention[] = data.reviews.map((r: any) => ({
-          id: r.id.toString(),
-          source: r.platform,
-          content: r.content,
-          date: r.date,
-          author: r.author || 'User',
-          reach: r.reach || 0
-        }));
-        
-        const dbAnalyses: SentimentAnalysis[] = data.reviews.map((r: any) => ({
-          sentiment: r.sentiment,
-          score: r.score,
-          entity: r.entity,
-          mentionId: r.id.toString()
-        }));
-
-        setMentions(dbMentions);
-        setAnalyses(dbAnalyses);
-        
-        const insightResults = await getDashboardInsights(dbMentions, dbAnalyses, topicsData);
-        setInsights(insightResults);
-      } else {
-        // Database is empty or filtered to empty
-        setMentions([]);
-        setAnalyses([]);
-        setInsights(null);
-      }
+      setKpis(kpisData);
+      setEmotionIntent(emotionIntentData);
+      setInsights(kpisData.raw.total > 0 ? await getDashboardInsights(kpisData.raw, topicsData, kpisData) : null);
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
     } finally {
@@ -210,11 +566,126 @@ export default function App() {
     }
   };
 
+  // Only the page on screen is requested; filtering and sorting happen on the server.
+  const fetchReviews = async () => {
+    const requestId = ++reviewsRequestRef.current;
+    const params = new URLSearchParams({
+      page: String(currentPageNum),
+      limit: String(reviewsPerPage),
+      sort: reviewQuery.sort,
+      order: reviewQuery.order
+    });
+    if (sentimentFilter) params.set('sentiment', sentimentFilter);
+    for (const key of ['platform', 'entity', 'from', 'to', 'q'] as const) {
+      if (reviewQuery[key]) params.set(key, reviewQuery[key]);
+    }
+
+    try {
+      const response = await fetch(buildApiUrl(`${reviewQuery.q ? '/api/search' : '/api/data'}?${params}`));
+      const data = await response.json();
+      // A later page or filter was requested while this one was loading.
+      if (requestId !== reviewsRequestRef.current) return;
+      if (!response.ok) throw new Error(data?.error || `Server responded with status ${response.status}`);
+
+      if (data.summary) setSummary(data.summary);
+      setTotalReviews(data.pagination.total);
+      setMentions(data.reviews.map((r: any) => ({
+        id: r.id.toString(),
+        source: r.platform,
+        content: r.content,
+        date: r.date,
+        author: r.author || '',
+        reach: r.reach || 0,
+        rating: r.rating,
+        url: r.source_url,
+        externalId: r.external_id,
+        snippet: r.snippet
+      })));
+      setAnalyses(data.reviews.map((r: any) => ({
+        sentiment: r.sentiment,
+        score: r.score,
+        entity: r.entity,
+        aspects: r.aspects || [],
+        analysisSource: r.analysis_source,
+        analysisModel: r.analysis_model,
+        promptVersion: r.prompt_version,
+        explanation: r.explanation,
+        keywords: r.keywords || [],
+        confidence: r.confidence,
+        emotion: r.emotion,
+        intent: r.intent,
+        mentionId: r.id.toString()
+      })));
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    }
+  };
+
+  const fetchTrends = async () => {
+    const requestId = ++trendsRequestRef.current;
+    const params = new URLSearchParams({ granularity: trendQuery.granularity });
+    for (const key of ['from', 'to', 'group_by'] as const) {
+      if (trendQuery[key]) params.set(key, trendQuery[key]);
+    }
+
+    try {
+      const response = await fetch(buildApiUrl(`/api/trends?${params}`));
+      const data = await response.json();
+      if (requestId !== trendsRequestRef.current) return;
+      if (!response.ok) throw new Error(data?.error || `Server responded with status ${response.status}`);
+      setTrends(data);
+    } catch (error) {
+      console.error("Error fetching trends:", error);
+    }
+  };
+
+  const fetchTopics = async () => {
+    const requestId = ++topicsRequestRef.current;
+    const params = new URLSearchParams();
+    for (const key of ['platform', 'sentiment', 'from', 'to'] as const) {
+      if (topicQuery[key]) params.set(key, topicQuery[key]);
+    }
+
+    try {
+      const response = await fetch(buildApiUrl(`/api/topics?${params}`));
+      const data = await response.json();
+      if (requestId !== topicsRequestRef.current) return;
+      if (!response.ok) throw new Error(data?.error || `Server responded with status ${response.status}`);
+      setTopics(data);
+    } catch (error) {
+      console.error("Error fetching topics:", error);
+    }
+  };
+
+  const fetchPlatformComparison = async () => {
+    const requestId = ++platformsRequestRef.current;
+    const params = new URLSearchParams({ granularity: platformQuery.granularity });
+    for (const key of ['from', 'to'] as const) {
+      if (platformQuery[key]) params.set(key, platformQuery[key]);
+    }
+
+    try {
+      const response = await fetch(buildApiUrl(`/api/platforms/compare?${params}`));
+      const data = await response.json();
+      if (requestId !== platformsRequestRef.current) return;
+      if (!response.ok) throw new Error(data?.error || `Server responded with status ${response.status}`);
+      setPlatformComparison(data);
+    } catch (error) {
+      console.error("Error fetching platform comparison:", error);
+    }
+  };
+
+  const fetchData = () => Promise.all([fetchDashboard(), fetchReviews(), fetchTrends(), fetchTopics(), fetchPlatformComparison()]);
+
+  const updateReviewQuery = (changes: Partial<ReviewQuery>) => {
+    setReviewQuery((prev) => ({ ...prev, ...changes }));
+    setCurrentPageNum(1);
+  };
+
   const handleSentimentFilter = (sentiment: string | null) => {
     const newFilter = sentiment === sentimentFilter ? null : sentiment;
     setSentimentFilter(newFilter);
     setCurrentPageNum(1);
-    fetchData(newFilter);
     
     // Switch to reviews page
     setCurrentPage('reviews');
@@ -229,19 +700,26 @@ export default function App() {
     try {
       console.log("Starting clear data process...");
       const response = await fetch(buildApiUrl('/api/data'), { method: 'DELETE' });
-      if (!response.ok) throw new Error("Failed to clear data on server");
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to clear data on server");
+      }
       
       console.log("Data cleared on server, updating local state...");
       // Reset all local states immediately
       setMentions([]);
       setAnalyses([]);
+      setTotalReviews(0);
       setInsights(null);
       setTopics([]);
-      setTrends([]);
+      setTrends(null);
+      setPlatformComparison(null);
+      setEmotionIntent(null);
       setSummary({
         total_positive: 0,
         total_negative: 0,
         total_neutral: 0,
+        unanalyzed: 0,
         last_updated: null
       });
       
@@ -255,15 +733,74 @@ export default function App() {
     }
   };
 
+  const stopRetryPolling = () => {
+    if (retryPollRef.current !== null) {
+      window.clearInterval(retryPollRef.current);
+      retryPollRef.current = null;
+    }
+  };
+
+  // Re-runs every review that still carries fallback labels and refreshes the dashboard once done.
+  const retryUnanalyzed = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/reanalyze'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fallback_only: true })
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      if (!result?.job) return;
+
+      setRetryJob(result.job);
+      stopRetryPolling();
+      retryPollRef.current = window.setInterval(async () => {
+        try {
+          const jobResponse = await fetch(buildApiUrl(`/api/jobs/${result.job.id}`));
+          if (!jobResponse.ok) return;
+          const job: UploadJob = await jobResponse.json();
+          setRetryJob(job);
+          if (isJobFinished(job)) {
+            stopRetryPolling();
+            fetchData();
+          }
+        } catch (err) {
+          console.warn('Failed to poll re-analysis job:', err);
+        }
+      }, 3000);
+    } catch (err: any) {
+      console.error('Retry analysis error:', err);
+      alert('Failed to start re-analysis: ' + (err.message || 'Unknown error'));
+    }
+  };
+
+  useEffect(() => stopRetryPolling, []);
+
   useEffect(() => {
-    fetchData();
+    fetchDashboard();
   }, []);
 
+  useEffect(() => {
+    fetchReviews();
+  }, [currentPageNum, sentimentFilter, reviewQuery]);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [trendQuery]);
+
+  useEffect(() => {
+    fetchTopics();
+  }, [topicQuery]);
+
+  useEffect(() => {
+    fetchPlatformComparison();
+  }, [platformQuery]);
+
   // Track active section on scroll
   useEffect(() => {
     if (currentPage !== 'home') return;
     
-    const sections = ['about', 'reviews', 'ai-summary', 'methodology', 'topics', 'dashboard'];
+    const sections = ['about', 'reviews', 'ai-summary', 'methodology', 'topics', 'dashboard', 'platforms'];
     const observerOptions = {
       root: null,
       rootMargin: '-40% 0px -40% 0px',
@@ -286,65 +823,61 @@ export default function App() {
     return () => observer.disconnect();
   }, [currentPage]);
 
-  const stats = useMemo(() => {
-    const totalMentions = mentions.length;
-    const totalReach = mentions.reduce((acc, m) => acc + m.reach, 0);
-    
-    const sentimentCounts = analyses.reduce((acc, a) => {
-      acc[a.sentiment] = (acc[a.sentiment] || 0) + 1;
-      return acc;
-    }, { positive: 0, neutral: 0, negative: 0 } as Record<string, number>);
-
-    const avgScore = analyses.length > 0 
-      ? analyses.reduce((acc, a) => acc + a.score, 0) / analyses.length 
-      : 0;
-
+  // Totals come from /api/kpis, since mentions only hold the page on screen.
+  const stats = useMemo(() => ({
+    totalMentions: kpis?.raw.total ?? 0,
+    totalReach: kpis?.total_reach ?? 0,
+    sentimentCounts: {
+      positive: kpis?.raw.positive ?? 0,
+      neutral: kpis?.raw.neutral ?? 0,
+      negative: kpis?.raw.negative ?? 0
+    },
+    avgScore: ((kpis?.raw.avg_score ?? 0) * 100).toFixed(1)
+  }), [kpis]);
+
+  const analysisByMention = useMemo(() => new Map(analyses.map((a) => [a.mentionId, a])), [analyses]);
+  const totalReviewPages = Math.max(1, Math.ceil(totalReviews / reviewsPerPage));
+
+  // Weighted mode counts each review by its reach (minimum 1), so the cards show
+  // how much of the audience saw positive or negative content rather than how many posts.
+  const kpiView = useMemo(() => {
+    if (kpiMode === 'weighted' && kpis) {
+      return {
+        total: kpis.weighted.total,
+        positive: kpis.weighted.positive,
+        neutral: kpis.weighted.neutral,
+        negative: kpis.weighted.negative,
+        avgScore: (kpis.weighted.avg_score * 100).toFixed(1),
+        unit: 'Weighted Reach'
+      };
+    }
     return {
-      totalMentions,
-      totalReach,
-      sentimentCounts,
-      avgScore: (avgScore * 100).toFixed(1)
+      total: stats.totalMentions,
+      positive: stats.sentimentCounts.positive,
+      neutral: stats.sentimentCounts.neutral,
+      negative: stats.sentimentCounts.negative,
+      avgScore: stats.avgScore,
+      unit: 'Reviews'
     };
-  }, [mentions, analyses]);
+  }, [kpiMode, kpis, stats]);
 
-  const chartData = useMemo(() => {
-    const months = [
-      { key: '2025-07', label: 'Jul 2025' },
-      { key: '2025-08', label: 'Aug 2025' },
-      { key: '2025-09', label: 'Sep 2025' },
-      { key: '2025-10', label: 'Oct 2025' },
-      { key: '2025-11', label: 'Nov 2025' },
-      { key: '2025-12', label: 'Dec 2025' }
-    ];
-
-    return months.map(m => {
-      const trend = trends.find(t => t.month === m.key);
-      if (trend) {
-        return {
-          date: m.label,
-          positive: trend.positive,
-          neutral: trend.neutral,
-          negative: trend.negative,
-          count: trend.count,
-          reach: trend.count * 100
-        };
-      }
-      
-      // Fallback to mock calculation from mentions if trends API is empty
-      const grouped = mentions.filter(men => men.date.startsWith(m.key)).reduce((acc, men) => {
-        acc.count += 1;
-        acc.reach += men.reach;
-        const analysis = analyses.find(a => (a as any).mentionId === men.id);
-        if (analysis) acc[analysis.sentiment] += 1;
-        return acc;
-      }, { count: 0, reach: 0, positive: 0, negative: 0, neutral: 0 });
+  const kpiShare = (count: number) => kpiView.total > 0 ? (count / kpiView.total) * 100 : 0;
 
-      return {
-        date: m.label,
-        ...grouped
-      };
-    });
-  }, [mentions, analyses, trends]);
+  // Scores are shown as 0-100 so they share the right-hand axis with the per-group series.
+  const chartData = useMemo(() => {
+    if (!trends) return [];
+    const toPercent = (score: number | null) => score === null ? null : Math.round(score * 1000) / 10;
+    return trends.buckets.map((bucket, index) => ({
+      date: formatTrendBucket(bucket.bucket, trends.granularity),
+      positive: bucket.positive,
+      neutral: bucket.neutral,
+      negative: bucket.negative,
+      count: bucket.count,
+      reach: bucket.reach,
+      avgScore: toPercent(bucket.avg_score),
+      ...Object.fromEntries(trends.groups.map((group, groupIndex) => [`group${groupIndex}`, toPercent(group.buckets[index].avg_score)]))
+    }));
+  }, [trends]);
 
   if (loading) {
     return (
@@ -388,6 +921,7 @@ export default function App() {
                 <NavLink href="#methodology" active={activeSection === 'methodology'}>Methodology</NavLink>
                 <NavLink href="#topics" active={activeSection === 'topics'}>Topics</NavLink>
                 <NavLink href="#dashboard" active={activeSection === 'dashboard'}>Dashboard</NavLink>
+                <NavLink href="#platforms" active={activeSection === 'platforms'}>Platforms</NavLink>
               </>
             ) : (
               <button 
@@ -542,10 +1076,35 @@ export default function App() {
                   <p className="text-xs uppercase tracking-[0.3em] opacity-40 font-mono text-[#7A2E0E]">Aspect-Based Sentiment Distribution Across Customer Reviews</p>
                 </div>
 
+                <div className="flex flex-wrap items-end justify-center gap-4">
+                  <QueryField label="Platform">
+                    <select value={topicQuery.platform} onChange={(e) => setTopicQuery((prev) => ({ ...prev, platform: e.target.value }))} className={QUERY_INPUT_CLASS}>
+                      <option value="">Semua</option>
+                      {kpis?.share_of_voice.map((item) => item.platform).filter(Boolean).map((platform) => (
+                        <option key={platform} value={platform}>{platform}</option>
+                      ))}
+                    </select>
+                  </QueryField>
+                  <QueryField label="Sentimen Aspek">
+                    <select value={topicQuery.sentiment} onChange={(e) => setTopicQuery((prev) => ({ ...prev, sentiment: e.target.value as TopicQuery['sentiment'] }))} className={QUERY_INPUT_CLASS}>
+                      <option value="">Semua</option>
+                      <option value="positive">Positive</option>
+                      <option value="neutral">Neutral</option>
+                      <option value="negative">Negative</option>
+                    </select>
+                  </QueryField>
+                  <QueryField label="Dari">
+                    <input type="date" value={topicQuery.from} onChange={(e) => setTopicQuery((prev) => ({ ...prev, from: e.target.value }))} className={QUERY_INPUT_CLASS} />
+                  </QueryField>
+                  <QueryField label="Sampai">
+                    <input type="date" value={topicQuery.to} onChange={(e) => setTopicQuery((prev) => ({ ...prev, to: e.target.value }))} className={QUERY_INPUT_CLASS} />
+                  </QueryField>
+                </div>
+
                 <div className="space-y-6">
                   {topics.length > 0 ? (
-                    topics.map((topic, idx) => (
-                      <TopicCard key={idx} topic={topic} />
+                    topics.slice(0, 5).map((topic) => (
+                      <TopicCard key={topic.entity} topic={topic} />
                     ))
                   ) : (
                     <div className="text-center py-20 bg-[#141414]/5 rounded-3xl border border-dashed border-[#141414]/10">
@@ -553,6 +1112,8 @@ export default function App() {
                     </div>
                   )}
                 </div>
+
+                {topics.length > 0 && <TopicTable topics={topics} />}
               </div>
             </section>
 
@@ -564,61 +1125,103 @@ export default function App() {
                   <p className="text-xs uppercase tracking-[0.3em] opacity-40 font-mono text-[#7A2E0E]">Real-time Performance Metrics</p>
                 </div>
 
+                <div className="flex flex-wrap justify-center gap-3 -mt-12">
+                  <FilterButton active={kpiMode === 'raw'} onClick={() => setKpiMode('raw')} label="Raw Count" color="#7A2E0E" />
+                  <FilterButton active={kpiMode === 'weighted'} onClick={() => setKpiMode('weighted')} label="Reach-Weighted" color="#7A2E0E" />
+                </div>
+
+                {/* The cards are the sentiment filter, so they always show the unfiltered split. */}
+                {sentimentFilter && (
+                  <p className="-mt-16 text-center text-[10px] uppercase tracking-widest opacity-50 font-mono font-bold text-[#7A2E0E]">
+                    KPI dihitung dari semua review • filter {sentimentFilter} hanya berlaku untuk tabel review
+                  </p>
+                )}
+
+                {(summary?.unanalyzed > 0 || (retryJob && !isJobFinished(retryJob))) && (
+                  <div className="flex flex-col md:flex-row items-center justify-between gap-6 p-8 bg-[#A5532D]/5 rounded-3xl border border-[#A5532D]/10">
+                    <div className="flex items-center gap-4">
+                      <AlertCircle className="text-[#A5532D] shrink-0" size={24} />
+                      <p className="text-sm text-[#141414]/70">
+                        {retryJob && !isJobFinished(retryJob)
+                          ? `Menganalisis ulang ${retryJob.processed_rows}/${retryJob.total_rows} review...`
+                          : `${summary.unanalyzed} review belum dianalisis AI dan masih memakai label fallback (neutral/General).`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={retryUnanalyzed}
+                      disabled={Boolean(retryJob && !isJobFinished(retryJob))}
+                      className="flex items-center gap-2 px-6 py-3 rounded-full bg-[#7A2E0E] text-white text-[10px] font-bold uppercase tracking-widest disabled:opacity-40"
+                    >
+                      <RefreshCcw size={14} className={cn(retryJob && !isJobFinished(retryJob) && "animate-spin")} />
+                      Retry Analysis
+                    </button>
+                  </div>
+                )}
+
                 {/* Stats Grid */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-10">
                   <KPICard 
                     label="Net Sentiment Score" 
-                    value={stats.avgScore} 
-                    subValue="Brand Health Index"
+                    value={kpiView.avgScore} 
+                    subValue={kpiMode === 'weighted' ? 'Reach-Weighted Health Index' : 'Brand Health Index'}
                     icon={<TrendingUp size={28} />}
-                    percentage={parseFloat(stats.avgScore)}
+                    percentage={parseFloat(kpiView.avgScore)}
                   />
                   <KPICard 
                     label="Positive Sentiment" 
-                    value={((stats.sentimentCounts.positive / stats.totalMentions) * 100).toFixed(1) + '%'} 
-                    subValue={`${stats.sentimentCounts.positive} Positive Reviews`}
+                    value={kpiShare(kpiView.positive).toFixed(1) + '%'} 
+                    subValue={`${formatCompact(kpiView.positive)} Positive ${kpiView.unit}`}
                     icon={<ArrowUpRight size={28} className="text-[#6E7C3A]" />}
-                    percentage={(stats.sentimentCounts.positive / stats.totalMentions) * 100}
+                    percentage={kpiShare(kpiView.positive)}
                     color="#6E7C3A"
                     onClick={() => handleSentimentFilter('positive')}
                     active={sentimentFilter === 'positive'}
                   />
                   <KPICard 
                     label="Negative Sentiment" 
-                    value={((stats.sentimentCounts.negative / stats.totalMentions) * 100).toFixed(1) + '%'} 
-                    subValue={`${stats.sentimentCounts.negative} Negative Reviews`}
+                    value={kpiShare(kpiView.negative).toFixed(1) + '%'} 
+                    subValue={`${formatCompact(kpiView.negative)} Negative ${kpiView.unit}`}
                     icon={<ArrowDownRight size={28} className="text-[#B0412E]" />}
-                    percentage={(stats.sentimentCounts.negative / stats.totalMentions) * 100}
+                    percentage={kpiShare(kpiView.negative)}
                     color="#B0412E"
                     onClick={() => handleSentimentFilter('negative')}
                     active={sentimentFilter === 'negative'}
                   />
                   <KPICard 
                     label="Neutral Sentiment" 
-                    value={((stats.sentimentCounts.neutral / stats.totalMentions) * 100).toFixed(1) + '%'} 
-                    subValue={`${stats.sentimentCounts.neutral} Neutral Reviews`}
+                    value={kpiShare(kpiView.neutral).toFixed(1) + '%'} 
+                    subValue={`${formatCompact(kpiView.neutral)} Neutral ${kpiView.unit}`}
                     icon={<Minus size={28} className="text-[#B8A486]" />}
-                    percentage={(stats.sentimentCounts.neutral / stats.totalMentions) * 100}
+                    percentage={kpiShare(kpiView.neutral)}
                     color="#B8A486"
                     onClick={() => handleSentimentFilter('neutral')}
                     active={sentimentFilter === 'neutral'}
                   />
                   <KPICard 
-                    label="Total Reviews Analyzed" 
-                    value={stats.totalMentions} 
-                    subValue="Across all platforms"
+                    label={kpiMode === 'weighted' ? 'Total Reach' : 'Total Reviews Analyzed'} 
+                    value={kpiMode === 'weighted' ? formatCompact(kpis?.total_reach ?? 0) : stats.totalMentions} 
+                    subValue="All reviews, unfiltered"
                     icon={<MessageSquare size={28} />}
                     onClick={() => handleSentimentFilter(null)}
-                    active={sentimentFilter === null && mentions.length > 0}
+                    active={sentimentFilter === null && totalReviews > 0}
                   />
                   <KPICard 
                     label="Time Range" 
-                    value="6 Months" 
-                    subValue="Jul 2025 - Dec 2025"
+                    value={`${trends?.buckets.length ?? 0} ${TREND_GRANULARITY_UNITS[trends?.granularity ?? 'month']}`} 
+                    subValue={trends?.from && trends.to ? `${formatTrendBucket(trends.from, 'day')} - ${formatTrendBucket(trends.to, 'day')}` : 'No data yet'}
                     icon={<Info size={28} />}
                   />
                 </div>
 
+                {kpis && (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+                    <ShareOfVoicePanel items={kpis.share_of_voice} />
+                    <RatingAgreementPanel agreement={kpis.rating_agreement} />
+                  </div>
+                )}
+
+                {emotionIntent && <EmotionIntentPanel breakdown={emotionIntent} />}
+
                 {/* Detailed Review Table Section */}
                 <div id="review-table" className="pt-12">
                   <div className="bg-white rounded-3xl shadow-[0_20px_60px_rgba(122,46,14,0.04)] border border-[#7A2E0E]/5 overflow-hidden">
@@ -626,7 +1229,7 @@ export default function App() {
                       <div>
                         <h3 className="font-serif italic text-3xl text-[#7A2E0E]">Detailed Review Data</h3>
                         <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
-                          {sentimentFilter ? `Showing ${sentimentFilter} reviews` : 'Showing all reviews'} • {mentions.length} total
+                          {sentimentFilter ? `Showing ${sentimentFilter} reviews` : 'Showing all reviews'} • {totalReviews} total
                         </p>
                       </div>
                       {sentimentFilter && (
@@ -646,23 +1249,47 @@ export default function App() {
                             <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Platform</th>
                             <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Date</th>
                             <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Review Content</th>
+                <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Reach</th>
+                <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Rating</th>
                             <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Sentiment</th>
                             <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Entity</th>
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-[#7A2E0E]/5">
-                          {mentions.slice((currentPageNum - 1) * reviewsPerPage, currentPageNum * reviewsPerPage).map((m, idx) => {
-                            const analysis = analyses.find(a => (a as any).mentionId === m.id);
+                          {mentions.map((m) => {
+                            const analysis = analysisByMention.get(m.id);
+                            const isExpanded = expandedReviewId === m.id;
                             return (
-                              <tr key={m.id} className="hover:bg-[#F1EEE8]/40 transition-colors">
-                                <td className="py-6 px-8 text-sm font-medium text-[#7A2E0E]/80">{m.source}</td>
-                                <td className="py-6 px-8 text-sm font-mono text-[#7A2E0E]/40">{m.date}</td>
-                                <td className="py-6 px-8 text-sm leading-relaxed text-[#141414]/70 max-w-md truncate">{m.content}</td>
-                                <td className="py-6 px-8">
-                                  <SentimentBadge sentiment={analysis?.sentiment || 'neutral'} />
-                                </td>
-                                <td className="py-6 px-8 text-xs font-bold uppercase tracking-widest text-[#7A2E0E]/60">{analysis?.entity || '-'}</td>
-                              </tr>
+                              <React.Fragment key={m.id}>
+                                <tr className="hover:bg-[#F1EEE8]/40 transition-colors">
+                                  <td className="py-6 px-8 text-sm font-medium text-[#7A2E0E]/80">
+                                    {m.source}
+                                    {m.author && <p className="text-[10px] font-mono text-[#7A2E0E]/40 mt-1">{m.author}</p>}
+                                  </td>
+                                  <td className="py-6 px-8 text-sm font-mono text-[#7A2E0E]/40">{m.date}</td>
+                                  <td className="py-6 px-8 text-sm leading-relaxed text-[#141414]/70 max-w-md truncate">
+                                    <ReviewContent mention={m} />
+                                  </td>
+                                  <td className="py-6 px-8 text-xs font-mono text-[#7A2E0E]/60">{m.reach ? formatCompact(m.reach) : '-'}</td>
+                                  <td className="py-6 px-8 text-xs font-mono text-[#7A2E0E]/60"><StarRating rating={m.rating} /></td>
+                                  <td className="py-6 px-8">
+                                    <SentimentBadge sentiment={analysis?.sentiment || 'neutral'} />
+                                    {analysis && (
+                                      <AnalysisDetailsToggle expanded={isExpanded} onClick={() => setExpandedReviewId(isExpanded ? null : m.id)} />
+                                    )}
+                                  </td>
+                                  <td className="py-6 px-8 text-xs font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+                                    {analysis ? <AspectList analysis={analysis} /> : '-'}
+                                  </td>
+                                </tr>
+                                {isExpanded && analysis && (
+                                  <tr className="bg-[#F1EEE8]/30">
+                                    <td colSpan={7} className="px-8 py-6">
+                                      <AnalysisDetails analysis={analysis} />
+                                    </td>
+                                  </tr>
+                                )}
+                              </React.Fragment>
                             );
                           })}
                         </tbody>
@@ -670,10 +1297,10 @@ export default function App() {
                     </div>
 
                     {/* Pagination */}
-                    {mentions.length > reviewsPerPage && (
+                    {totalReviews > reviewsPerPage && (
                       <div className="p-8 border-t border-[#141414]/5 flex items-center justify-between">
                         <p className="text-xs font-mono opacity-40">
-                          Page {currentPageNum} of {Math.ceil(mentions.length / reviewsPerPage)}
+                          Page {currentPageNum} of {totalReviewPages}
                         </p>
                         <div className="flex gap-2">
                           <button 
@@ -684,7 +1311,7 @@ export default function App() {
                             <ChevronLeft size={20} />
                           </button>
                           <button 
-                            disabled={currentPageNum === Math.ceil(mentions.length / reviewsPerPage)}
+                            disabled={currentPageNum >= totalReviewPages}
                             onClick={() => setCurrentPageNum(p => p + 1)}
                             className="p-2 rounded-full hover:bg-[#141414]/5 disabled:opacity-20 transition-colors"
                           >
@@ -713,8 +1340,41 @@ export default function App() {
                       <LegendItem color="#B8A486" label="Neutral" />
                       <LegendItem color="#B0412E" label="Negative" />
                       <LegendItem color="#7A2E0E" label="Reach" isLine />
+                      {trends?.groups.length
+                        ? trends.groups.map((group, index) => (
+                          <LegendItem key={group.group} color={TREND_GROUP_COLORS[index % TREND_GROUP_COLORS.length]} label={`${group.group} Score`} isLine />
+                        ))
+                        : <LegendItem color="#B86934" label="Avg Score" isLine />}
                     </div>
                   </div>
+                  <div className="flex flex-wrap items-end gap-4 mb-10">
+                    <QueryField label="Granularitas">
+                      <select
+                        value={trendQuery.granularity}
+                        onChange={(e) => setTrendQuery((prev) => ({ ...prev, granularity: e.target.value as TrendGranularity }))}
+                        className={QUERY_INPUT_CLASS}
+                      >
+                        {TREND_GRANULARITY_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                      </select>
+                    </QueryField>
+                    <QueryField label="Dari">
+                      <input type="date" value={trendQuery.from} onChange={(e) => setTrendQuery((prev) => ({ ...prev, from: e.target.value }))} className={QUERY_INPUT_CLASS} />
+                    </QueryField>
+                    <QueryField label="Sampai">
+                      <input type="date" value={trendQuery.to} onChange={(e) => setTrendQuery((prev) => ({ ...prev, to: e.target.value }))} className={QUERY_INPUT_CLASS} />
+                    </QueryField>
+                    <QueryField label="Kelompokkan">
+                      <select
+                        value={trendQuery.group_by}
+                        onChange={(e) => setTrendQuery((prev) => ({ ...prev, group_by: e.target.value as TrendQuery['group_by'] }))}
+                        className={QUERY_INPUT_CLASS}
+                      >
+                        <option value="">Tanpa grup</option>
+                        <option value="platform">Platform</option>
+                        <option value="entity">Topik</option>
+                      </select>
+                    </QueryField>
+                  </div>
                   <div className="h-[500px] w-full">
                     <ResponsiveContainer width="100%" height="100%">
                       <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
@@ -738,6 +1398,15 @@ export default function App() {
                           tick={{ fontSize: 12, fontFamily: 'Inter', fontWeight: 500, fill: '#7A2E0E', opacity: 0.5 }} 
                           dx={-10}
                         />
+                        <YAxis 
+                          yAxisId="score"
+                          orientation="right"
+                          domain={[0, 100]}
+                          axisLine={false} 
+                          tickLine={false} 
+                          tick={{ fontSize: 12, fontFamily: 'Inter', fontWeight: 500, fill: '#B86934', opacity: 0.6 }} 
+                          dx={10}
+                        />
                         <Tooltip 
                           contentStyle={{ 
                             backgroundColor: '#fff', 
@@ -765,12 +1434,51 @@ export default function App() {
                         <Bar dataKey="positive" fill="#6E7C3A" radius={[6, 6, 0, 0]} barSize={16} />
                         <Bar dataKey="neutral" fill="#B8A486" radius={[6, 6, 0, 0]} barSize={16} />
                         <Bar dataKey="negative" fill="#B0412E" radius={[6, 6, 0, 0]} barSize={16} />
+                        {trends?.groups.length
+                          ? trends.groups.map((group, index) => (
+                            <Area
+                              key={group.group}
+                              yAxisId="score"
+                              type="monotone"
+                              dataKey={`group${index}`}
+                              name={`${group.group} score`}
+                              stroke={TREND_GROUP_COLORS[index % TREND_GROUP_COLORS.length]}
+                              fill="none"
+                              strokeWidth={2}
+                              connectNulls
+                            />
+                          ))
+                          : (
+                            <Area
+                              yAxisId="score"
+                              type="monotone"
+                              dataKey="avgScore"
+                              name="avg score"
+                              stroke="#B86934"
+                              fill="none"
+                              strokeWidth={2}
+                              strokeDasharray="6 4"
+                              connectNulls
+                            />
+                          )}
                       </AreaChart>
                     </ResponsiveContainer>
                   </div>
                 </motion.div>
               </div>
             </section>
+
+            {/* 5. Platform Comparison - White/Transparent */}
+            <section id="platforms" className="py-32 md:py-40 px-6">
+              <div className="max-w-[1200px] mx-auto space-y-20">
+                <div className="text-center space-y-4">
+                  <h2 className="font-serif italic text-6xl text-[#7A2E0E] tracking-tight">Platform Comparison</h2>
+                  <p className="text-xs uppercase tracking-[0.3em] opacity-40 font-mono text-[#7A2E0E]">Volume, Sentiment & Topics per Platform</p>
+                </div>
+
+                <PlatformComparisonView comparison={platformComparison} query={platformQuery} onQueryChange={setPlatformQuery} />
+              </div>
+            </section>
           </>
         ) : currentPage === 'data-management' ? (
           <DataManagementPage onDataUpdate={fetchData} summary={summary} onClearData={clearData} />
@@ -778,11 +1486,16 @@ export default function App() {
           <ReviewsDetailPage 
             mentions={mentions} 
             analyses={analyses} 
+            totalReviews={totalReviews}
             sentimentFilter={sentimentFilter}
             onFilterChange={handleSentimentFilter}
+            query={reviewQuery}
+            onQueryChange={updateReviewQuery}
+            platformOptions={kpis?.share_of_voice.map((item) => item.platform).filter(Boolean) ?? []}
             currentPageNum={currentPageNum}
             setCurrentPageNum={setCurrentPageNum}
             reviewsPerPage={reviewsPerPage}
+            onAnalysisChange={(updated) => setAnalyses((prev) => prev.map((a) => a.mentionId === updated.mentionId ? updated : a))}
           />
         )}
       </main>
@@ -810,97 +1523,238 @@ function DataManagementPage({ onDataUpdate, summary, onClearData }: { onDataUpda
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [uploadingMessage, setUploadingMessage] = useState<string | null>(null);
+  const [activeJob, setActiveJob] = useState<UploadJob | null>(null);
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+  const jobSourceRef = React.useRef<EventSource | null>(null);
+  const jobPollRef = React.useRef<number | null>(null);
+
+  const stopFollowingJob = () => {
+    jobSourceRef.current?.close();
+    jobSourceRef.current = null;
+    if (jobPollRef.current !== null) {
+      window.clearInterval(jobPollRef.current);
+      jobPollRef.current = null;
+    }
+  };
+
+  const handleJobUpdate = (job: UploadJob) => {
+    setActiveJob(job);
+    if (!isJobFinished(job)) return;
+
+    stopFollowingJob();
+    setUploading(false);
+    setUploadingMessage(null);
+    if (job.status === 'completed') {
+      setSuccess(job.message || 'Upload successful!');
+      onDataUpdate(); // Refresh the main dashboard data
+    } else {
+      setError(job.error || 'Analysis job failed.');
+    }
+  };
+
+  // Polling is the fallback when the SSE connection cannot be kept open (e.g. a buffering proxy).
+  const pollJob = (jobId: string) => {
+    jobPollRef.current = window.setInterval(async () => {
+      try {
+        const response = await fetch(buildApiUrl(`/api/jobs/${jobId}`));
+        if (response.ok) handleJobUpdate(await response.json());
+      } catch (err) {
+        console.error('Job polling error:', err);
+      }
+    }, 3000);
+  };
+
+  const followJob = (job: UploadJob) => {
+    stopFollowingJob();
+    setUploading(true);
+    handleJobUpdate(job);
+    if (isJobFinished(job)) return;
+
+    if (typeof EventSource === 'undefined') {
+      pollJob(job.id);
+      return;
+    }
+
+    const source = new EventSource(buildApiUrl(`/api/jobs/${job.id}/events`));
+    source.addEventListener('progress', (event) => {
+      handleJobUpdate(JSON.parse((event as MessageEvent).data));
+    });
+    source.onerror = () => {
+      if (jobSourceRef.current !== source) return;
+      source.close();
+      jobSourceRef.current = null;
+      pollJob(job.id);
+    };
+    jobSourceRef.current = source;
+  };
+
+  const [uploads, setUploads] = useState<UploadRecord[]>([]);
+
+  const loadUploads = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/uploads'));
+      if (response.ok) setUploads(await response.json());
+    } catch (err) {
+      console.error('Failed to load upload history:', err);
+    }
+  };
+
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  const loadQuota = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/quota'));
+      if (response.ok) setQuota(await response.json());
+    } catch (err) {
+      console.error('Failed to load AI quota:', err);
+    }
+  };
+
+  // The dashboard summary changes after every finished job and after clearing data.
+  useEffect(() => {
+    loadUploads();
+    loadQuota();
+  }, [summary]);
+
+  const deleteUpload = async (upload: UploadRecord) => {
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(buildApiUrl(`/api/uploads/${upload.id}`), { method: 'DELETE' });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      setSuccess(result?.message || 'Upload deleted.');
+      onDataUpdate();
+    } catch (err: any) {
+      console.error('Delete upload error:', err);
+      setError(err.message || 'Failed to delete upload.');
+    }
+  };
+
+  const reanalyzeUpload = async (upload: UploadRecord) => {
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(buildApiUrl(`/api/uploads/${upload.id}/reanalyze`), { method: 'POST' });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      followJob(result.job as UploadJob);
+      loadUploads();
+    } catch (err: any) {
+      console.error('Re-analyze upload error:', err);
+      setError(err.message || 'Failed to start re-analysis.');
+    }
+  };
+
+  // Re-attach to an upload or re-analysis that is still running, e.g. after the tab was reloaded mid-upload.
+  useEffect(() => {
+    fetch(buildApiUrl('/api/jobs?limit=5&type=upload,reanalyze'))
+      .then((response) => (response.ok ? response.json() : []))
+      .then((jobs: UploadJob[]) => {
+        const pendingJob = jobs.find((job) => !isJobFinished(job));
+        if (pendingJob) followJob(pendingJob);
+      })
+      .catch((err) => console.error('Failed to load jobs:', err));
+
+    return stopFollowingJob;
+  }, []);
+
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, platform: string) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    event.target.value = '';
 
     setUploading(true);
     setError(null);
     setSuccess(null);
-    setUploadingMessage('Uploading and analyzing file...');
+    setActiveJob(null);
+    setPendingImport(null);
+    setUploadingMessage('Reading file preview...');
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const csvText = e.target?.result as string;
-      const uploadUrl = buildApiUrl(`/api/upload-csv?platform=${encodeURIComponent(platform)}`);
-      const isRelativeApiUrl = uploadUrl.startsWith('/api/');
-      
-      try {
-        const response = await fetch(uploadUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'text/csv' },
-          body: csvText,
-        });
+    // The raw file is sent as-is; the server detects CSV/TSV/XLSX/JSON/NDJSON from its content.
+    const previewUrl = buildApiUrl(`/api/upload-preview?platform=${encodeURIComponent(platform)}`);
 
-        const rawResult = await response.text();
-        const result = rawResult.trim()
-          ? (() => {
-              try {
-                return JSON.parse(rawResult);
-              } catch {
-                return null;
-              }
-            })()
-          : null;
-
-        if (!response.ok) {
-          const isNetlifyHost =
-            typeof window !== 'undefined' && window.location.hostname.includes('netlify.app');
-          const isNotFoundPage = response.status === 404;
-          const looksLikeHtmlErrorPage = /<html|<!doctype html>|<title>/i.test(rawResult);
-          const errorMessage =
-            (isNotFoundPage
-              ? isRelativeApiUrl || isNetlifyHost || looksLikeHtmlErrorPage
-                ? 'API backend tidak ditemukan. Kamu deploy frontend di Netlify, tapi endpoint API belum tersambung. Set environment variable VITE_API_BASE_URL ke URL backend production kamu (contoh Render/Railway), lalu redeploy.'
-                : 'Endpoint upload CSV tidak ditemukan (404). Pastikan URL backend benar.'
-              : null) ||
-            (result && typeof result === 'object' && 'error' in result && typeof (result as any).error === 'string'
-              ? (result as any).error
-              : null) ||
-            (rawResult.trim() ? rawResult : null) ||
-            `Server responded with status ${response.status}`;
-          throw new Error(errorMessage);
-        }
+    try {
+      const response = await fetch(previewUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+      const { result, errorMessage } = await readApiResponse(response, previewUrl);
+      if (errorMessage) throw new Error(errorMessage);
 
-        setSuccess(
-          (result && typeof result === 'object' && 'message' in result && typeof (result as any).message === 'string'
-            ? (result as any).message
-            : null) ||
-            'Upload successful!'
-        );
-        onDataUpdate(); // Refresh the main dashboard data
-
-      } catch (err: any) {
-        console.error("Upload error:", err);
-        setError(err.message || "An error occurred during processing");
-      } finally {
-        setUploading(false);
-        setUploadingMessage(null);
-      }
-    };
-    reader.onerror = () => {
-      setError("Failed to read the file.");
+      setPendingImport({ fileName: file.name, platform, body: file, preview: result as UploadPreview });
+    } catch (err: any) {
+      console.error("Preview error:", err);
+      setError(err.message || "An error occurred during processing");
+    } finally {
       setUploading(false);
       setUploadingMessage(null);
-    };
-    reader.readAsText(file);
+    }
   };
 
-  return (
-    <div className="max-w-[1000px] mx-auto py-24 px-6 space-y-16">
-      <div className="text-center space-y-4">
-        <h2 className="font-serif italic text-5xl text-[#141414]">Data Management</h2>
-        <p className="text-sm uppercase tracking-widest opacity-40 font-mono">Upload and manage your research data</p>
-      </div>
+  const startImport = async (mapping: ColumnMapping, savePreset: boolean) => {
+    if (!pendingImport) return;
+    const { fileName, platform, body } = pendingImport;
 
-      {/* Stats Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-        <div className="bg-white p-8 rounded-2xl shadow-sm border border-[#141414]/5">
-          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono mb-2">Total Reviews</p>
-          <p className="text-4xl font-serif italic text-[#141414]">
-            {(summary?.total_positive || 0) + (summary?.total_negative || 0) + (summary?.total_neutral || 0)}
-          </p>
+    setUploading(true);
+    setError(null);
+    setUploadingMessage('Uploading file...');
+
+    const params = new URLSearchParams({ platform, fileName, duplicates: duplicateMode });
+    Object.entries(mapping).forEach(([field, column]) => {
+      if (column) params.set(`mapping[${field}]`, column);
+    });
+    const uploadUrl = buildApiUrl(`/api/upload?${params.toString()}`);
+
+    try {
+      if (savePreset) {
+        await fetch(buildApiUrl(`/api/mapping-presets/${encodeURIComponent(platform)}`), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ mapping }),
+        });
+      }
+
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body,
+      });
+      const { result, errorMessage } = await readApiResponse(response, uploadUrl);
+      if (errorMessage) throw new Error(errorMessage);
+
+      if (!result?.job) {
+        throw new Error('Server did not return an analysis job.');
+      }
+
+      setPendingImport(null);
+      setUploadingMessage(null);
+      followJob(result.job as UploadJob);
+    } catch (err: any) {
+      console.error("Upload error:", err);
+      setError(err.message || "An error occurred during processing");
+      setUploading(false);
+      setUploadingMessage(null);
+    }
+  };
+
+  return (
+    <div className="max-w-[1000px] mx-auto py-24 px-6 space-y-16">
+      <div className="text-center space-y-4">
+        <h2 className="font-serif italic text-5xl text-[#141414]">Data Management</h2>
+        <p className="text-sm uppercase tracking-widest opacity-40 font-mono">Upload and manage your research data</p>
+      </div>
+
+      {/* Stats Overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+        <div className="bg-white p-8 rounded-2xl shadow-sm border border-[#141414]/5">
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono mb-2">Total Reviews</p>
+          <p className="text-4xl font-serif italic text-[#141414]">
+            {(summary?.total_positive || 0) + (summary?.total_negative || 0) + (summary?.total_neutral || 0)}
+          </p>
         </div>
         <div className="bg-white p-8 rounded-2xl shadow-sm border border-[#141414]/5">
           <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono mb-2">Last Updated</p>
@@ -923,6 +1777,17 @@ function DataManagementPage({ onDataUpdate, summary, onClearData }: { onDataUpda
       </div>
 
       {/* Upload Section */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-white p-6 rounded-2xl border border-[#7A2E0E]/5">
+        <div>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">Duplicate Reviews</p>
+          <p className="text-xs text-[#141414]/60 mt-1">Review yang sudah pernah di-upload (platform, konten, tanggal, author sama).</p>
+        </div>
+        <div className="flex gap-2">
+          <FilterButton active={duplicateMode === 'skip'} onClick={() => setDuplicateMode('skip')} label="Skip" color="#7A2E0E" />
+          <FilterButton active={duplicateMode === 'overwrite'} onClick={() => setDuplicateMode('overwrite')} label="Overwrite" color="#7A2E0E" />
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
         <UploadCard 
           platform="Instagram" 
@@ -951,6 +1816,21 @@ function DataManagementPage({ onDataUpdate, summary, onClearData }: { onDataUpda
         </div>
       )}
 
+      {quota?.rate_limited && <QuotaPanel quota={quota} />}
+
+      {activeJob && !isJobFinished(activeJob) && <JobProgress job={activeJob} />}
+
+      {pendingImport && (
+        <MappingPreview
+          key={`${pendingImport.platform}-${pendingImport.fileName}`}
+          pendingImport={pendingImport}
+          quota={quota}
+          disabled={uploading}
+          onConfirm={startImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {error && (
         <div className="flex items-center gap-3 p-6 bg-red-50 text-red-600 rounded-2xl border border-red-100">
           <AlertCircle size={20} />
@@ -959,20 +1839,38 @@ function DataManagementPage({ onDataUpdate, summary, onClearData }: { onDataUpda
       )}
 
       {success && (
-        <div className="flex items-center gap-3 p-6 bg-emerald-50 text-emerald-600 rounded-2xl border border-emerald-100">
-          <CheckCircle2 size={20} />
-          <p className="text-sm font-medium">{success}</p>
+        <div className="p-6 bg-emerald-50 text-emerald-600 rounded-2xl border border-emerald-100 space-y-4">
+          <div className="flex items-center gap-3">
+            <CheckCircle2 size={20} />
+            <p className="text-sm font-medium">{success}</p>
+          </div>
+          {activeJob?.status === 'completed' && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-[10px] font-mono font-bold uppercase tracking-widest text-emerald-700/70">
+              <span>New: {activeJob.new_count}</span>
+              <span>Updated: {activeJob.updated_count}</span>
+              <span>Duplicates: {activeJob.duplicate_count}</span>
+              <span>Cache Hits: {activeJob.cache_count}</span>
+              <span>Fallback: {activeJob.fallback_count}</span>
+            </div>
+          )}
         </div>
       )}
 
+      <UploadHistory uploads={uploads} disabled={uploading} onDelete={deleteUpload} onReanalyze={reanalyzeUpload} />
+
+      <TaxonomySettings onTaxonomyChange={onDataUpdate} />
+
+      <SlangDictionarySettings />
+
       <div className="bg-white p-10 rounded-3xl border border-[#7A2E0E]/5 space-y-6">
-        <h3 className="font-serif italic text-2xl text-[#7A2E0E]">CSV Format Guide</h3>
+        <h3 className="font-serif italic text-2xl text-[#7A2E0E]">File Format Guide</h3>
         <p className="text-sm text-[#141414]/60 leading-relaxed">
-          Untuk memastikan analisis akurat, pastikan file CSV kamu memiliki kolom berikut. Sistem akan otomatis mencari kolom dengan nama:
+          File CSV, TSV, Excel (XLSX), JSON maupun NDJSON bisa langsung di-upload; format dikenali otomatis dari isi file. Untuk memastikan analisis akurat, pastikan file kamu memiliki kolom berikut. Sistem akan otomatis mencari kolom dengan nama berikut, dan kamu bisa mengubah pilihan kolom di langkah preview sebelum import:
         </p>
         <ul className="text-xs space-y-2 font-mono text-[#7A2E0E]/70 list-disc pl-5">
-          <li><strong>Konten:</strong> <code className="bg-[#7A2E0E]/5 px-1 rounded">content</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">text</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">Review</code>, atau <code className="bg-[#7A2E0E]/5 px-1 rounded">comment</code></li>
+          <li><strong>Konten:</strong> <code className="bg-[#7A2E0E]/5 px-1 rounded">content</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">text</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">Review</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">comment</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">ulasan</code>, atau <code className="bg-[#7A2E0E]/5 px-1 rounded">komentar</code></li>
           <li><strong>Tanggal:</strong> <code className="bg-[#7A2E0E]/5 px-1 rounded">date</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">timestamp</code>, atau <code className="bg-[#7A2E0E]/5 px-1 rounded">publish_date</code> (Format: YYYY-MM-DD)</li>
+          <li><strong>Opsional:</strong> <code className="bg-[#7A2E0E]/5 px-1 rounded">author</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">reach</code>/<code className="bg-[#7A2E0E]/5 px-1 rounded">likes</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">rating</code>, <code className="bg-[#7A2E0E]/5 px-1 rounded">url</code>, dan <code className="bg-[#7A2E0E]/5 px-1 rounded">review_id</code></li>
         </ul>
         <div className="overflow-x-auto">
           <table className="w-full text-left text-xs font-mono border-collapse">
@@ -1010,6 +1908,622 @@ function DataManagementPage({ onDataUpdate, summary, onClearData }: { onDataUpda
     </div>
   );
 }
+const MAPPING_FIELDS: Array<{ field: keyof ColumnMapping, label: string, required?: boolean }> = [
+  { field: 'content', label: 'Konten', required: true },
+  { field: 'date', label: 'Tanggal' },
+  { field: 'author', label: 'Author' },
+  { field: 'reach', label: 'Reach / Likes' },
+  { field: 'rating', label: 'Rating' },
+  { field: 'url', label: 'URL' },
+  { field: 'external_id', label: 'Review ID' },
+];
+
+function MappingPreview({ pendingImport, quota, disabled, onConfirm, onCancel }: { pendingImport: PendingImport, quota: QuotaStatus | null, disabled: boolean, onConfirm: (mapping: ColumnMapping, savePreset: boolean) => void, onCancel: () => void }) {
+  const { preview } = pendingImport;
+  const exceedsQuota = quota?.estimated_reviews_remaining != null && preview.total_rows > quota.estimated_reviews_remaining;
+  const [mapping, setMapping] = useState<ColumnMapping>(preview.mapping);
+  const [savePreset, setSavePreset] = useState(false);
+  const previewRows = preview.rows.slice(0, 5);
+  const rowCountLabel = `${preview.total_rows_estimated ? '~' : ''}${preview.total_rows}`;
+  const invalidDates = mapping.date ? preview.invalid_dates[mapping.date] ?? [] : [];
+
+  return (
+    <div className="bg-white rounded-3xl border border-[#7A2E0E]/10 overflow-hidden">
+      <div className="p-8 border-b border-[#7A2E0E]/5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="font-serif italic text-2xl text-[#7A2E0E]">Column Mapping</h3>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+            {pendingImport.fileName} • {preview.format.toUpperCase()} • {pendingImport.platform} • {rowCountLabel} rows
+            {preview.has_preset ? ' • preset applied' : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-8 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+        {MAPPING_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="space-y-2">
+            <span className="block text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">
+              {label}{required ? ' *' : ''}
+            </span>
+            <select
+              value={mapping[field] || ''}
+              onChange={(e) => setMapping((current) => ({ ...current, [field]: e.target.value || undefined }))}
+              className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 bg-[#F1EEE8]/40 text-xs font-mono text-[#141414]/80"
+            >
+              <option value="">{required ? 'Pilih kolom...' : 'Tidak ada'}</option>
+              {preview.columns.map((column) => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border-t border-[#7A2E0E]/5">
+        <table className="w-full text-left text-xs font-mono border-collapse">
+          <thead>
+            <tr className="bg-[#F1EEE8]/50 border-b border-[#7A2E0E]/5">
+              {preview.columns.map((column) => {
+                const mappedField = MAPPING_FIELDS.find(({ field }) => mapping[field] === column);
+                return (
+                  <th key={column} className={cn("py-3 px-4 text-[#7A2E0E] whitespace-nowrap", mappedField ? "opacity-100" : "opacity-40")}>
+                    {column}
+                    {mappedField && <span className="ml-2 text-[9px] uppercase tracking-widest text-[#A5532D]">{mappedField.label}</span>}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#7A2E0E]/5">
+            {previewRows.map((row, idx) => (
+              <tr key={idx}>
+                {preview.columns.map((column) => (
+                  <td key={column} className="py-3 px-4 text-[#141414]/70 max-w-[240px] truncate">{String(row[column] ?? '')}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {invalidDates.length > 0 && (
+        <div className="mx-8 mt-8 p-4 bg-[#A5532D]/5 text-[#A5532D] rounded-2xl border border-[#A5532D]/10 flex items-center gap-3">
+          <AlertCircle size={16} className="shrink-0" />
+          <p className="text-xs">
+            {invalidDates.length} dari {preview.rows.length} baris pratinjau di kolom "{mapping.date}" bukan tanggal yang dikenali
+            (contoh: {invalidDates.slice(0, 3).map((value) => `"${value.slice(0, 30)}"`).join(', ')}). Baris seperti ini diimpor dengan tanggal upload.
+          </p>
+        </div>
+      )}
+
+      {exceedsQuota && (
+        <div className="mx-8 mt-8 p-4 bg-[#B0412E]/5 text-[#B0412E] rounded-2xl border border-[#B0412E]/10 flex items-center gap-3">
+          <AlertCircle size={16} className="shrink-0" />
+          <p className="text-xs">
+            Sisa kuota AI hari ini cukup untuk sekitar {quota!.estimated_reviews_remaining} review, file ini berisi {preview.total_rows}.
+            Review yang sudah ada di cache tidak memakai kuota; sisanya akan memakai fallback sampai kuota reset.
+          </p>
+        </div>
+      )}
+
+      <div className="p-8 border-t border-[#7A2E0E]/5 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-xs text-[#141414]/60">
+          <input type="checkbox" checked={savePreset} onChange={(e) => setSavePreset(e.target.checked)} />
+          Simpan mapping sebagai preset {pendingImport.platform}
+        </label>
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            disabled={disabled}
+            className="px-6 py-2 rounded-full text-[11px] font-bold uppercase tracking-widest text-[#7A2E0E]/60 hover:text-[#7A2E0E] disabled:opacity-30"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping, savePreset)}
+            disabled={disabled || !mapping.content}
+            className="flex items-center gap-2 px-6 py-2 rounded-full bg-[#7A2E0E] text-white text-[11px] font-bold uppercase tracking-widest hover:bg-[#B86934] transition-all disabled:opacity-30"
+          >
+            <Upload size={14} />
+            Import {rowCountLabel} Rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Daily AI budget of the active provider; turns red once less than a tenth of the tokens is left.
+function QuotaPanel({ quota }: { quota: QuotaStatus }) {
+  const tokensPerDay = quota.tokens_per_day || 1;
+  const usedPct = Math.min(100, (quota.tokens_used / tokensPerDay) * 100);
+  const isLow = quota.exhausted || (quota.tokens_remaining ?? 0) < tokensPerDay * 0.1;
+
+  return (
+    <div className={cn(
+      "bg-white p-6 rounded-2xl border space-y-4",
+      isLow ? "border-[#B0412E]/20" : "border-[#7A2E0E]/5"
+    )}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">AI Quota Hari Ini</p>
+          <p className="text-xs text-[#141414]/60 mt-1">
+            {quota.model} • {quota.requests_per_minute} request/menit • reset {format(parseISO(quota.resets_at), 'dd MMM yyyy, HH:mm')}
+          </p>
+        </div>
+        <p className={cn("text-xs font-mono font-bold", isLow ? "text-[#B0412E]" : "text-[#7A2E0E]")}>
+          {quota.exhausted
+            ? 'Kuota habis, analisis memakai fallback'
+            : `± ${quota.estimated_reviews_remaining} review tersisa`}
+        </p>
+      </div>
+      <div className="h-2 w-full bg-[#7A2E0E]/10 rounded-full overflow-hidden">
+        <div
+          className={cn("h-full rounded-full", isLow ? "bg-[#B0412E]" : "bg-[#7A2E0E]")}
+          style={{ width: `${usedPct}%` }}
+        />
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+        <span>Tokens: {quota.tokens_used.toLocaleString()} / {quota.tokens_per_day?.toLocaleString()}</span>
+        <span>Requests: {quota.requests_today}</span>
+        <span>Rate Limited: {quota.rate_limited_today}</span>
+        <span>~{quota.tokens_per_review} tokens/review</span>
+      </div>
+    </div>
+  );
+}
+
+// Share of model output items that failed schema validation before repair; '-' when nothing was validated.
+function formatParseFailureRate({ validated_count, parse_failure_count }: { validated_count: number, parse_failure_count: number }) {
+  if (validated_count === 0) return '-';
+  return `${((parse_failure_count / validated_count) * 100).toFixed(1)}% (${parse_failure_count})`;
+}
+
+function UploadHistory({ uploads, disabled, onDelete, onReanalyze }: { uploads: UploadRecord[], disabled: boolean, onDelete: (upload: UploadRecord) => void, onReanalyze: (upload: UploadRecord) => void }) {
+  return (
+    <div className="bg-white rounded-3xl border border-[#7A2E0E]/5 overflow-hidden">
+      <div className="p-8 border-b border-[#7A2E0E]/5">
+        <h3 className="font-serif italic text-2xl text-[#7A2E0E]">Upload History</h3>
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+          Hapus atau analisis ulang satu batch tanpa menyentuh data lain
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-[#F1EEE8]/50 border-b border-[#7A2E0E]/5">
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Uploaded</th>
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">File</th>
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Reviews</th>
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">AI / Cache / Fallback</th>
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Parse Failures</th>
+              <th className="py-4 px-6 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Status</th>
+              <th className="py-4 px-6" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#7A2E0E]/5">
+            {uploads.map((upload) => {
+              const isProcessing = upload.job_status === 'queued' || upload.job_status === 'running';
+              return (
+                <tr key={upload.id} className="hover:bg-[#F1EEE8]/40 transition-colors">
+                  <td className="py-4 px-6 text-xs font-mono text-[#7A2E0E]/60">{format(parseISO(upload.created_at), 'dd MMM yyyy, HH:mm')}</td>
+                  <td className="py-4 px-6 text-sm text-[#141414]/70">
+                    <p className="font-medium">{upload.file_name || 'Legacy import'}</p>
+                    <p className="text-[10px] font-mono uppercase tracking-widest opacity-50">{upload.platform}</p>
+                  </td>
+                  <td className="py-4 px-6 text-xs font-mono text-[#141414]/70">
+                    {upload.review_count} <span className="opacity-50">/ {upload.total_rows} rows</span>
+                  </td>
+                  <td className="py-4 px-6 text-xs font-mono text-[#141414]/70">{upload.ai_count} / {upload.cache_count} / {upload.fallback_count}</td>
+                  <td
+                    className={cn(
+                      "py-4 px-6 text-xs font-mono",
+                      upload.parse_failure_count > 0 ? "text-[#B0412E]" : "text-[#141414]/70"
+                    )}
+                    title={`${upload.parse_failure_count} dari ${upload.validated_count} item output model tidak valid pada percobaan pertama`}
+                  >
+                    {formatParseFailureRate(upload)}
+                  </td>
+                  <td className="py-4 px-6 text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+                    {upload.job_status ? `${upload.job_type} ${upload.job_status}` : '-'}
+                  </td>
+                  <td className="py-4 px-6">
+                    <div className="flex justify-end gap-4">
+                      <button
+                        disabled={disabled || isProcessing}
+                        onClick={() => onReanalyze(upload)}
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E] hover:underline disabled:opacity-30"
+                      >
+                        <RefreshCcw size={12} />
+                        Re-analyze
+                      </button>
+                      <button
+                        disabled={disabled || isProcessing}
+                        onClick={() => onDelete(upload)}
+                        className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-red-500 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <Trash2 size={12} />
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {uploads.length === 0 && (
+              <tr>
+                <td colSpan={7} className="py-12 text-center font-mono text-xs opacity-30 uppercase tracking-widest">
+                  No uploads yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const GENERAL_TOPIC = 'General';
+
+const splitTerms = (value: string) =>
+  value.split(',').map((term) => term.trim().toLowerCase()).filter(Boolean);
+
+// Managed topic list: the AI prompt and the offline classifier are generated from it on the server.
+function TaxonomySettings({ onTaxonomyChange }: { onTaxonomyChange: () => void }) {
+  const [entries, setEntries] = useState<TaxonomyEntry[]>([]);
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success', text: string } | null>(null);
+
+  const loadTaxonomy = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/taxonomy'));
+      if (!response.ok) return;
+      setEntries(await response.json());
+    } catch (err) {
+      console.error('Failed to load taxonomy:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadTaxonomy();
+  }, []);
+
+  const request = async (path: string, init: RequestInit) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(buildApiUrl(path), init);
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      await loadTaxonomy();
+      onTaxonomyChange();
+      return result;
+    } catch (err: any) {
+      console.error('Taxonomy update error:', err);
+      setMessage({ type: 'error', text: err.message || 'Failed to update taxonomy.' });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveEntry = async (entry: Omit<TaxonomyEntry, 'sort_order'>) => {
+    const result = await request(`/api/taxonomy/${encodeURIComponent(entry.name)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ description: entry.description, keywords: entry.keywords, synonyms: entry.synonyms }),
+    });
+    if (result) {
+      setMessage({ type: 'success', text: `Topik ${entry.name} disimpan, label review disesuaikan di background.` });
+    }
+    return Boolean(result);
+  };
+
+  const deleteEntry = async (entry: TaxonomyEntry) => {
+    const result = await request(`/api/taxonomy/${encodeURIComponent(entry.name)}`, { method: 'DELETE' });
+    if (result) setMessage({ type: 'success', text: result.message });
+  };
+
+  const addEntry = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (await saveEntry({ name, description: '', keywords: [], synonyms: [] })) setNewName('');
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-[#7A2E0E]/5 overflow-hidden">
+      <div className="p-8 border-b border-[#7A2E0E]/5 flex flex-col md:flex-row md:items-end justify-between gap-6">
+        <div>
+          <h3 className="font-serif italic text-2xl text-[#7A2E0E]">Topic Taxonomy</h3>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+            Topik yang boleh dipakai AI; label di luar daftar dipetakan lewat sinonim atau masuk ke {GENERAL_TOPIC}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+            placeholder="Topik baru, mis. Delivery"
+            className="px-4 py-2 rounded-full border border-[#7A2E0E]/10 text-sm focus:outline-none focus:border-[#7A2E0E]/40"
+          />
+          <button
+            disabled={saving || !newName.trim()}
+            onClick={addEntry}
+            className="px-6 py-2 rounded-full bg-[#7A2E0E] text-white text-[10px] font-bold uppercase tracking-widest disabled:opacity-30"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={cn(
+          "mx-8 mt-6 p-4 rounded-2xl text-sm",
+          message.type === 'error' ? "bg-red-50 text-red-600" : "bg-emerald-50 text-emerald-600"
+        )}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="divide-y divide-[#7A2E0E]/5">
+        {entries.map((entry) => (
+          <TaxonomyRow key={`${entry.name}|${entry.description}|${entry.keywords.join()}|${entry.synonyms.join()}`} entry={entry} disabled={saving} onSave={saveEntry} onDelete={deleteEntry} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TaxonomyRow({ entry, disabled, onSave, onDelete }: { entry: TaxonomyEntry, disabled: boolean, onSave: (entry: Omit<TaxonomyEntry, 'sort_order'>) => void, onDelete: (entry: TaxonomyEntry) => void }) {
+  const [description, setDescription] = useState(entry.description);
+  const [keywords, setKeywords] = useState(entry.keywords.join(', '));
+  const [synonyms, setSynonyms] = useState(entry.synonyms.join(', '));
+
+  const isDirty = description !== entry.description
+    || keywords !== entry.keywords.join(', ')
+    || synonyms !== entry.synonyms.join(', ');
+
+  return (
+    <div className="p-8 grid grid-cols-1 md:grid-cols-[160px_1fr_auto] gap-6 items-start">
+      <p className="font-serif italic text-xl text-[#141414]">{entry.name}</p>
+      <div className="space-y-3">
+        <TaxonomyField label="Deskripsi" value={description} onChange={setDescription} />
+        <TaxonomyField label="Keywords" value={keywords} onChange={setKeywords} placeholder="ongkir, kurir, delivery" />
+        <TaxonomyField label="Sinonim" value={synonyms} onChange={setSynonyms} placeholder="shipping, pengiriman" />
+      </div>
+      <div className="flex md:flex-col gap-4 md:items-end">
+        <button
+          disabled={disabled || !isDirty}
+          onClick={() => onSave({ name: entry.name, description, keywords: splitTerms(keywords), synonyms: splitTerms(synonyms) })}
+          className="text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E] hover:underline disabled:opacity-30"
+        >
+          Save
+        </button>
+        {entry.name !== GENERAL_TOPIC && (
+          <button
+            disabled={disabled}
+            onClick={() => onDelete(entry)}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest text-red-500 hover:text-red-600 disabled:opacity-30"
+          >
+            <Trash2 size={12} />
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TaxonomyField({ label, value, onChange, placeholder }: { label: string, value: string, onChange: (value: string) => void, placeholder?: string }) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40">{label}</span>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full px-4 py-2 rounded-xl border border-[#7A2E0E]/10 text-sm text-[#141414]/70 focus:outline-none focus:border-[#7A2E0E]/40"
+      />
+    </label>
+  );
+}
+
+// Slang, abbreviations and emoji expanded before analysis. Saving an existing term overwrites its replacement.
+function SlangDictionarySettings() {
+  const [entries, setEntries] = useState<SlangEntry[]>([]);
+  const [term, setTerm] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [previewText, setPreviewText] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success', text: string } | null>(null);
+
+  const loadDictionary = async () => {
+    try {
+      const response = await fetch(buildApiUrl('/api/slang'));
+      if (!response.ok) return;
+      setEntries(await response.json());
+    } catch (err) {
+      console.error('Failed to load slang dictionary:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadDictionary();
+  }, []);
+
+  const request = async (path: string, init: RequestInit) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(buildApiUrl(path), init);
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      return result;
+    } catch (err: any) {
+      console.error('Slang dictionary error:', err);
+      setMessage({ type: 'error', text: err.message || 'Failed to update slang dictionary.' });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveEntry = async () => {
+    if (!term.trim() || !replacement.trim()) return;
+    const result = await request(`/api/slang/${encodeURIComponent(term.trim())}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ replacement }),
+    });
+    if (!result) return;
+    setMessage({ type: 'success', text: `"${result.entry.term}" → "${result.entry.replacement}" disimpan, review dinormalisasi ulang di background.` });
+    setTerm('');
+    setReplacement('');
+    await loadDictionary();
+  };
+
+  const deleteEntry = async (entry: SlangEntry) => {
+    const result = await request(`/api/slang/${encodeURIComponent(entry.term)}`, { method: 'DELETE' });
+    if (!result) return;
+    setMessage({ type: 'success', text: result.message });
+    await loadDictionary();
+  };
+
+  const runPreview = async () => {
+    if (!previewText.trim()) return;
+    const result = await request('/api/normalize', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: previewText }),
+    });
+    if (result) setPreview(result.normalized);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-[#7A2E0E]/5 overflow-hidden">
+      <div className="p-8 border-b border-[#7A2E0E]/5 flex flex-col md:flex-row md:items-end justify-between gap-6">
+        <div>
+          <h3 className="font-serif italic text-2xl text-[#7A2E0E]">Slang Dictionary</h3>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+            Singkatan, slang dan emoji diganti sebelum analisis; perubahan berlaku saat analisis ulang
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <input
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            placeholder="Istilah, mis. mager"
+            className="w-36 px-4 py-2 rounded-full border border-[#7A2E0E]/10 text-sm focus:outline-none focus:border-[#7A2E0E]/40"
+          />
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveEntry()}
+            placeholder="Pengganti, mis. malas gerak"
+            className="w-48 px-4 py-2 rounded-full border border-[#7A2E0E]/10 text-sm focus:outline-none focus:border-[#7A2E0E]/40"
+          />
+          <button
+            disabled={saving || !term.trim() || !replacement.trim()}
+            onClick={saveEntry}
+            className="px-6 py-2 rounded-full bg-[#7A2E0E] text-white text-[10px] font-bold uppercase tracking-widest disabled:opacity-30"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={cn(
+          "mx-8 mt-6 p-4 rounded-2xl text-sm",
+          message.type === 'error' ? "bg-red-50 text-red-600" : "bg-emerald-50 text-emerald-600"
+        )}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="p-8 flex flex-wrap gap-2 max-h-72 overflow-y-auto">
+        {entries.map((entry) => (
+          <span key={entry.term} className="flex items-center gap-2 px-3 py-1 rounded-full bg-[#F1EEE8] text-xs text-[#141414]/70">
+            <span className="font-mono font-bold text-[#7A2E0E]">{entry.term}</span>
+            <span className="opacity-40">→</span>
+            {entry.replacement}
+            <button
+              disabled={saving}
+              onClick={() => deleteEntry(entry)}
+              className="text-red-400 hover:text-red-600 disabled:opacity-30"
+              title={`Hapus ${entry.term}`}
+            >
+              <Trash2 size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="p-8 border-t border-[#7A2E0E]/5 space-y-3">
+        <div className="flex gap-3">
+          <input
+            value={previewText}
+            onChange={(e) => setPreviewText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && runPreview()}
+            placeholder="Coba teks review, mis. kopinya enakkk bgt 👍 tp pelayanannya lemot"
+            className="flex-1 px-4 py-2 rounded-xl border border-[#7A2E0E]/10 text-sm focus:outline-none focus:border-[#7A2E0E]/40"
+          />
+          <button
+            disabled={saving || !previewText.trim()}
+            onClick={runPreview}
+            className="text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E] hover:underline disabled:opacity-30"
+          >
+            Preview
+          </button>
+        </div>
+        {preview !== null && (
+          <p className="text-sm text-[#141414]/70">
+            <span className="text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40 mr-2">Dinormalisasi</span>
+            {preview || '—'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function JobProgress({ job }: { job: UploadJob }) {
+  const progressPct = job.total_batches > 0 ? (job.completed_batches / job.total_batches) * 100 : 0;
+
+  return (
+    <div className="p-8 bg-[#A5532D]/5 rounded-2xl border border-[#A5532D]/10 space-y-5">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <RefreshCcw className="animate-spin text-[#A5532D]" />
+          <p className="font-mono text-sm text-[#A5532D] uppercase tracking-widest font-bold">
+            {job.status === 'queued' ? 'Waiting in queue...' : `Analyzing batch ${Math.min(job.completed_batches + 1, job.total_batches)} of ${job.total_batches}`}
+          </p>
+        </div>
+        <p className="font-mono text-xs text-[#A5532D]/70">{job.file_name || job.platform}</p>
+      </div>
+      <div className="h-2 w-full bg-[#A5532D]/10 rounded-full overflow-hidden">
+        <motion.div
+          animate={{ width: `${progressPct}%` }}
+          transition={{ duration: 0.6, ease: [0.22, 1, 0.36, 1] }}
+          className="h-full bg-[#A5532D] rounded-full"
+        />
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-[10px] font-mono font-bold uppercase tracking-widest text-[#A5532D]/70">
+        <span>{job.processed_rows} / {job.total_rows} reviews</span>
+        <span>ETA: {job.eta_seconds !== null ? formatDuration(job.eta_seconds) : '-'}</span>
+        <span>AI: {job.ai_count}</span>
+        <span>Cache: {job.cache_count}</span>
+        <span>Fallback: {job.fallback_count}</span>
+        <span>Parse Failures: {formatParseFailureRate(job)}</span>
+      </div>
+    </div>
+  );
+}
+
 function UploadCard({ platform, icon, onUpload, disabled }: { platform: string, icon: React.ReactNode, onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void, disabled: boolean }) {
   return (
     <div className="bg-white p-10 rounded-3xl border border-[#7A2E0E]/5 hover:shadow-xl transition-all group relative overflow-hidden">
@@ -1020,13 +2534,13 @@ function UploadCard({ platform, icon, onUpload, disabled }: { platform: string,
         </div>
         <div>
           <h4 className="font-serif italic text-xl mb-1">{platform}</h4>
-          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">Upload CSV</p>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">CSV • XLSX • JSON</p>
         </div>
         <label className={cn(
           "w-full py-3 px-4 bg-[#7A2E0E] text-white text-[11px] font-bold uppercase tracking-widest rounded-full cursor-pointer hover:bg-[#B86934] transition-all text-center",
           disabled && "opacity-50 cursor-not-allowed pointer-events-none"
         )}>
-          <input type="file" accept=".csv" className="hidden" onChange={onUpload} disabled={disabled} />
+          <input type="file" accept=".csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl" className="hidden" onChange={onUpload} disabled={disabled} />
           {disabled ? (
             <span className="flex items-center justify-center gap-2">
               <RefreshCcw className="animate-spin" size={14} />
@@ -1044,7 +2558,380 @@ function UploadCard({ platform, icon, onUpload, disabled }: { platform: string,
   );
 }
 
-function TopicCard({ topic }: { topic: any }) {
+const ASPECT_SENTIMENT_COLORS: Record<SentimentType, string> = {
+  positive: '#6E7C3A',
+  neutral: '#B8A486',
+  negative: '#B0412E',
+};
+
+// Mixed reviews list every aspect with its own sentiment; single-aspect reviews keep the plain label.
+function AnalysisDetailsToggle({ expanded, onClick }: { expanded: boolean, onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "flex items-center gap-1 mt-2 text-[9px] font-mono font-bold uppercase tracking-widest hover:text-[#7A2E0E]",
+        expanded ? "text-[#7A2E0E]" : "text-[#7A2E0E]/40"
+      )}
+    >
+      <Info size={10} />
+      {expanded ? 'Tutup' : 'Kenapa?'}
+    </button>
+  );
+}
+
+const ANALYSIS_SOURCE_LABELS: Record<NonNullable<SentimentAnalysis['analysisSource']>, string> = {
+  ai: 'AI',
+  cache: 'Cache',
+  fallback: 'Fallback',
+  manual: 'Koreksi manual',
+};
+
+// Expanded detail row: why the classifier chose these labels and how sure it was.
+function AnalysisDetails({ analysis }: { analysis: SentimentAnalysis }) {
+  const keywords = analysis.keywords || [];
+  const confidencePct = analysis.confidence != null ? Math.round(analysis.confidence * 100) : null;
+  const origin = [
+    analysis.analysisSource ? ANALYSIS_SOURCE_LABELS[analysis.analysisSource] : null,
+    analysis.analysisModel,
+    analysis.promptVersion,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-6 text-xs">
+      <div className="space-y-3">
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">Penjelasan</p>
+        <p className="text-sm leading-relaxed text-[#141414]/70">
+          {analysis.explanation || (analysis.analysisSource === 'fallback'
+            ? 'Belum dianalisis: label netral sementara karena analisis AI tidak tersedia.'
+            : 'Tidak ada penjelasan untuk review ini.')}
+        </p>
+        {(analysis.emotion || analysis.intent) && (
+          <p className="text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+            Emotion: {analysis.emotion || '-'} • Intent: {analysis.intent || '-'}
+          </p>
+        )}
+        {keywords.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {keywords.map((keyword) => (
+              <span key={keyword} className="px-2 py-1 rounded-full bg-[#7A2E0E]/5 text-[#7A2E0E] font-mono text-[10px]">{keyword}</span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-3">
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">Confidence</p>
+        {confidencePct !== null ? (
+          <div className="space-y-1">
+            <div className="h-2 w-full bg-[#7A2E0E]/10 rounded-full overflow-hidden">
+              <div
+                className={cn("h-full rounded-full", confidencePct < 50 ? "bg-[#B0412E]" : "bg-[#6E7C3A]")}
+                style={{ width: `${confidencePct}%` }}
+              />
+            </div>
+            <p className="font-mono text-[#141414]/60">{confidencePct}%</p>
+          </div>
+        ) : (
+          <p className="font-mono text-[#141414]/40">-</p>
+        )}
+        {origin && <p className="text-[10px] font-mono text-[#7A2E0E]/50">{origin}</p>}
+      </div>
+    </div>
+  );
+}
+
+function AspectList({ analysis }: { analysis: SentimentAnalysis }) {
+  const aspects = analysis.aspects || [];
+  if (aspects.length <= 1) {
+    return <>{analysis.entity || '-'}</>;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {aspects.map((aspect) => (
+        <span
+          key={aspect.aspect}
+          title={aspect.evidence || undefined}
+          className="whitespace-nowrap"
+          style={{ color: ASPECT_SENTIMENT_COLORS[aspect.sentiment] }}
+        >
+          {aspect.aspect}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+type PlatformTrendMetric = 'count' | 'avg_score' | 'negative';
+
+const PLATFORM_TREND_METRICS: Array<{ value: PlatformTrendMetric, label: string }> = [
+  { value: 'count', label: 'Volume' },
+  { value: 'avg_score', label: 'Avg Score' },
+  { value: 'negative', label: 'Negative' },
+];
+
+// Side-by-side cards per platform plus one trend line per platform on a shared time axis.
+function PlatformComparisonView({ comparison, query, onQueryChange }: {
+  comparison: PlatformComparison | null,
+  query: PlatformQuery,
+  onQueryChange: React.Dispatch<React.SetStateAction<PlatformQuery>>
+}) {
+  const [metric, setMetric] = useState<PlatformTrendMetric>('count');
+  const platforms = comparison?.platforms ?? [];
+  const totalVolume = platforms.reduce((sum, platform) => sum + platform.total, 0);
+
+  const chartData = useMemo(() => {
+    if (!comparison || platforms.length === 0) return [];
+    return platforms[0].trend.map((bucket, index) => {
+      const point: Record<string, string | number | null> = { date: formatTrendBucket(bucket.bucket, comparison.granularity) };
+      for (const platform of platforms) {
+        const value = platform.trend[index][metric];
+        point[platform.platform] = metric === 'avg_score' && value !== null ? Math.round(value * 1000) / 10 : value;
+      }
+      return point;
+    });
+  }, [comparison, metric]);
+
+  return (
+    <div className="space-y-12">
+      <div className="flex flex-wrap items-end justify-center gap-4">
+        <QueryField label="Granularitas">
+          <select value={query.granularity} onChange={(e) => onQueryChange((prev) => ({ ...prev, granularity: e.target.value as TrendGranularity }))} className={QUERY_INPUT_CLASS}>
+            {TREND_GRANULARITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </QueryField>
+        <QueryField label="Dari">
+          <input type="date" value={query.from} onChange={(e) => onQueryChange((prev) => ({ ...prev, from: e.target.value }))} className={QUERY_INPUT_CLASS} />
+        </QueryField>
+        <QueryField label="Sampai">
+          <input type="date" value={query.to} onChange={(e) => onQueryChange((prev) => ({ ...prev, to: e.target.value }))} className={QUERY_INPUT_CLASS} />
+        </QueryField>
+      </div>
+
+      {platforms.length === 0 ? (
+        <div className="text-center py-20 bg-[#141414]/5 rounded-3xl border border-dashed border-[#141414]/10">
+          <p className="font-mono text-sm opacity-40 uppercase tracking-widest">No platform data available yet. Upload data to compare platforms.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {platforms.map((platform, index) => (
+              <PlatformCard
+                key={platform.platform}
+                platform={platform}
+                share={totalVolume > 0 ? (platform.total / totalVolume) * 100 : 0}
+                color={TREND_GROUP_COLORS[index % TREND_GROUP_COLORS.length]}
+              />
+            ))}
+          </div>
+
+          <div className="bg-white p-10 rounded-3xl border border-[#141414]/5 space-y-8">
+            <div className="flex flex-wrap items-center justify-between gap-6">
+              <div className="flex flex-wrap gap-6">
+                {platforms.map((platform, index) => (
+                  <LegendItem key={platform.platform} color={TREND_GROUP_COLORS[index % TREND_GROUP_COLORS.length]} label={platform.platform} isLine />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {PLATFORM_TREND_METRICS.map((option) => (
+                  <FilterButton key={option.value} active={metric === option.value} onClick={() => setMetric(option.value)} label={option.label} color="#7A2E0E" />
+                ))}
+              </div>
+            </div>
+            <div className="h-[360px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#E8DCCB" />
+                  <XAxis
+                    dataKey="date"
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fontFamily: 'Inter', fontWeight: 500, fill: '#7A2E0E', opacity: 0.5 }}
+                    dy={15}
+                  />
+                  <YAxis
+                    domain={metric === 'avg_score' ? [0, 100] : [0, 'auto']}
+                    axisLine={false}
+                    tickLine={false}
+                    tick={{ fontSize: 12, fontFamily: 'Inter', fontWeight: 500, fill: '#7A2E0E', opacity: 0.5 }}
+                    dx={-10}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#fff',
+                      border: '1px solid #E8DCCB',
+                      borderRadius: '16px',
+                      color: '#7A2E0E',
+                      fontSize: '13px',
+                      fontFamily: 'Inter',
+                      fontWeight: 500,
+                      padding: '16px'
+                    }}
+                  />
+                  {platforms.map((platform, index) => (
+                    <Line
+                      key={platform.platform}
+                      type="monotone"
+                      dataKey={platform.platform}
+                      stroke={TREND_GROUP_COLORS[index % TREND_GROUP_COLORS.length]}
+                      strokeWidth={2}
+                      dot={false}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PlatformCard({ platform, share, color }: { platform: PlatformComparisonItem, share: number, color: string }) {
+  const segments = [
+    { label: 'Positive', value: platform.positive, color: '#6E7C3A' },
+    { label: 'Neutral', value: platform.neutral, color: '#B8A486' },
+    { label: 'Negative', value: platform.negative, color: '#B0412E' },
+  ];
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border border-[#141414]/5 shadow-[0_10px_30px_rgba(0,0,0,0.02)] space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h4 className="font-serif italic text-2xl text-[#141414]" style={{ color }}>{platform.platform}</h4>
+          <p className="text-[10px] font-mono font-bold uppercase tracking-widest opacity-30">
+            {platform.total} review • {formatPct(share)} volume
+          </p>
+        </div>
+        <div className="text-right space-y-1">
+          <p className="text-[10px] font-mono font-bold uppercase tracking-widest opacity-30">Avg Score</p>
+          <p className="text-2xl font-serif text-[#7A2E0E]">{platform.avg_score === null ? '-' : (platform.avg_score * 100).toFixed(1)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="h-3 w-full bg-[#7A2E0E]/5 rounded-full overflow-hidden flex">
+          {segments.map((segment) => (
+            <div key={segment.label} style={{ width: `${(segment.value / platform.total) * 100}%`, backgroundColor: segment.color }} />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] font-mono uppercase tracking-widest">
+          {segments.map((segment) => (
+            <span key={segment.label} style={{ color: segment.color }}>
+              {segment.label} {formatPct((segment.value / platform.total) * 100)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between border-t border-[#7A2E0E]/5 pt-4">
+        <span className="text-[10px] font-mono font-bold uppercase tracking-widest opacity-30">Net Sentiment</span>
+        <span className={cn("text-sm font-mono font-bold", platform.net_sentiment > 0 ? "text-[#6E7C3A]" : platform.net_sentiment < 0 ? "text-[#B0412E]" : "text-[#7A2E0E]/50")}>
+          {(platform.net_sentiment * 100).toFixed(1)}%
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[10px] font-mono font-bold uppercase tracking-widest opacity-30">Top Topics</p>
+        {platform.top_entities.length > 0 ? platform.top_entities.map((entity) => (
+          <div key={entity.entity} className="flex items-center justify-between gap-4 text-sm">
+            <span className="capitalize text-[#141414]/80">{entity.entity}</span>
+            <span className="font-mono text-xs text-[#7A2E0E]/60">
+              {entity.total} •{' '}
+              <span className={entity.net_sentiment > 0 ? "text-[#6E7C3A]" : entity.net_sentiment < 0 ? "text-[#B0412E]" : ""}>
+                {(entity.net_sentiment * 100).toFixed(0)}%
+              </span>
+            </span>
+          </div>
+        )) : (
+          <p className="text-xs opacity-40">Belum ada topik.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type TopicSortKey = 'entity' | 'total' | 'positive' | 'neutral' | 'negative' | 'avg_score' | 'net_sentiment';
+
+const TOPIC_TABLE_COLUMNS: Array<{ key: TopicSortKey, label: string }> = [
+  { key: 'entity', label: 'Topic' },
+  { key: 'total', label: 'Mentions' },
+  { key: 'positive', label: 'Positive' },
+  { key: 'neutral', label: 'Neutral' },
+  { key: 'negative', label: 'Negative' },
+  { key: 'avg_score', label: 'Avg Score' },
+  { key: 'net_sentiment', label: 'Net Sentiment' },
+];
+
+// Every topic, including the long tail below the cards. Sorted in the browser since the list is small.
+function TopicTable({ topics }: { topics: TopicItem[] }) {
+  const [sort, setSort] = useState<{ key: TopicSortKey, direction: 'asc' | 'desc' }>({ key: 'total', direction: 'desc' });
+
+  const sortedTopics = useMemo(() => {
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    return [...topics].sort((a, b) => {
+      if (sort.key === 'entity') return sign * a.entity.localeCompare(b.entity);
+      return sign * ((a[sort.key] ?? -Infinity) - (b[sort.key] ?? -Infinity));
+    });
+  }, [topics, sort]);
+
+  const toggleSort = (key: TopicSortKey) => {
+    setSort((prev) => prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'entity' ? 'asc' : 'desc' });
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-[#141414]/5 overflow-hidden">
+      <div className="p-8 border-b border-[#7A2E0E]/5">
+        <h3 className="font-serif italic text-2xl text-[#7A2E0E]">All Topics</h3>
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+          {topics.length} topik • klik judul kolom untuk mengurutkan
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-[#F1EEE8]/50 border-b border-[#7A2E0E]/5">
+              {TOPIC_TABLE_COLUMNS.map((column) => (
+                <th key={column.key} className="py-4 px-6">
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className="flex items-center gap-1 text-[10px] uppercase tracking-widest font-mono font-bold text-[#7A2E0E] opacity-60 hover:opacity-100"
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.direction === 'asc' ? <ChevronUp size={12} /> : <ChevronDown size={12} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[#7A2E0E]/5">
+            {sortedTopics.map((topic) => (
+              <tr key={topic.entity} className="hover:bg-[#F1EEE8]/40 transition-colors">
+                <td className="py-4 px-6 font-serif italic text-lg text-[#141414]">{topic.entity}</td>
+                <td className="py-4 px-6 text-sm font-mono text-[#7A2E0E]/70">{topic.total}</td>
+                <td className="py-4 px-6 text-sm font-mono text-[#6E7C3A]">{topic.positive}</td>
+                <td className="py-4 px-6 text-sm font-mono text-[#B8A486]">{topic.neutral}</td>
+                <td className="py-4 px-6 text-sm font-mono text-[#B0412E]">{topic.negative}</td>
+                <td className="py-4 px-6 text-sm font-mono text-[#7A2E0E]/70">{topic.avg_score === null ? '-' : (topic.avg_score * 100).toFixed(1)}</td>
+                <td className={cn("py-4 px-6 text-sm font-mono font-bold", topic.net_sentiment > 0 ? "text-[#6E7C3A]" : topic.net_sentiment < 0 ? "text-[#B0412E]" : "text-[#7A2E0E]/50")}>
+                  {(topic.net_sentiment * 100).toFixed(1)}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function TopicCard({ topic }: { topic: TopicItem }) {
   const ref = React.useRef(null);
   const isInView = useInView(ref, { once: true, margin: "-50px" });
   
@@ -1052,7 +2939,7 @@ function TopicCard({ topic }: { topic: any }) {
   const neuPct = (topic.neutral / topic.total) * 100;
   const negPct = (topic.negative / topic.total) * 100;
   
-  const netScore = ((topic.positive - topic.negative) / topic.total * 100).toFixed(1);
+  const netScore = (topic.net_sentiment * 100).toFixed(1);
 
   return (
     <motion.div 
@@ -1102,6 +2989,12 @@ function TopicCard({ topic }: { topic: any }) {
             </span>
           </div>
         </div>
+        {(topic.positive_evidence || topic.negative_evidence) && (
+          <div className="flex flex-col md:flex-row gap-2 md:gap-6 text-xs italic opacity-60">
+            {topic.positive_evidence && <span className="text-[#6E7C3A]">“{topic.positive_evidence}”</span>}
+            {topic.negative_evidence && <span className="text-[#B0412E]">“{topic.negative_evidence}”</span>}
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -1110,20 +3003,62 @@ function TopicCard({ topic }: { topic: any }) {
 function ReviewsDetailPage({ 
   mentions, 
   analyses, 
+  totalReviews,
   sentimentFilter, 
   onFilterChange,
+  query,
+  onQueryChange,
+  platformOptions,
   currentPageNum,
   setCurrentPageNum,
-  reviewsPerPage
+  reviewsPerPage,
+  onAnalysisChange
 }: { 
   mentions: Mention[], 
   analyses: SentimentAnalysis[], 
+  totalReviews: number,
   sentimentFilter: string | null,
   onFilterChange: (s: string | null) => void,
+  query: ReviewQuery,
+  onQueryChange: (changes: Partial<ReviewQuery>) => void,
+  platformOptions: string[],
   currentPageNum: number,
   setCurrentPageNum: (n: number | ((p: number) => number)) => void,
-  reviewsPerPage: number
+  reviewsPerPage: number,
+  onAnalysisChange: (analysis: SentimentAnalysis) => void
 }) {
+  const [entityOptions, setEntityOptions] = useState<string[]>([]);
+  const [editorName, setEditorName] = useState(() => localStorage.getItem(EDITOR_NAME_KEY) || '');
+
+  useEffect(() => {
+    fetch(buildApiUrl('/api/taxonomy'))
+      .then((response) => response.ok ? response.json() : [])
+      .then((entries: TaxonomyEntry[]) => setEntityOptions(entries.map((entry) => entry.name)))
+      .catch((err) => console.error('Failed to load taxonomy:', err));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(EDITOR_NAME_KEY, editorName);
+  }, [editorName]);
+
+  const analysisByMention = useMemo(() => new Map(analyses.map((a) => [a.mentionId, a])), [analyses]);
+  const totalPages = Math.max(1, Math.ceil(totalReviews / reviewsPerPage));
+  const hasQueryFilters = Boolean(query.platform || query.entity || query.from || query.to);
+  const [searchText, setSearchText] = useState(query.q);
+
+  // Search results come ranked by relevance; leaving search goes back to newest first.
+  const submitSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    const q = searchText.trim();
+    if (q === query.q) return;
+    onQueryChange(q ? { q, sort: 'relevance', order: 'desc' } : { q: '', sort: 'date', order: 'desc' });
+  };
+
+  const clearSearch = () => {
+    setSearchText('');
+    onQueryChange({ q: '', sort: 'date', order: 'desc' });
+  };
+
   return (
     <div className="max-w-[1200px] mx-auto px-6 py-20 space-y-12">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-8">
@@ -1141,6 +3076,89 @@ function ReviewsDetailPage({
         </div>
       </div>
 
+      <form onSubmit={submitSearch} className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-[#7A2E0E]/40" />
+          <input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder='Cari review, mis. parkir, "tempat nyaman" atau kop*'
+            className="w-full pl-11 pr-4 py-3 rounded-full border border-[#7A2E0E]/10 bg-white text-sm text-[#141414]/70 focus:outline-none focus:border-[#7A2E0E]/40"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-6 py-3 rounded-full bg-[#7A2E0E] text-white text-[10px] font-bold uppercase tracking-widest"
+        >
+          Cari
+        </button>
+        {query.q && (
+          <button
+            type="button"
+            onClick={clearSearch}
+            className="text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E] hover:underline"
+          >
+            Hapus
+          </button>
+        )}
+      </form>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <QueryField label="Urutkan">
+          <select
+            value={`${query.sort}:${query.order}`}
+            onChange={(e) => {
+              const [sort, order] = e.target.value.split(':') as [ReviewSortField, ReviewQuery['order']];
+              onQueryChange({ sort, order });
+            }}
+            className={QUERY_INPUT_CLASS}
+          >
+            {REVIEW_SORT_OPTIONS.filter((option) => query.q || !option.value.startsWith('relevance')).map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </QueryField>
+        <QueryField label="Platform">
+          <select value={query.platform} onChange={(e) => onQueryChange({ platform: e.target.value })} className={QUERY_INPUT_CLASS}>
+            <option value="">Semua</option>
+            {platformOptions.map((platform) => <option key={platform} value={platform}>{platform}</option>)}
+          </select>
+        </QueryField>
+        <QueryField label="Topik">
+          <select value={query.entity} onChange={(e) => onQueryChange({ entity: e.target.value })} className={QUERY_INPUT_CLASS}>
+            <option value="">Semua</option>
+            {entityOptions.map((entity) => <option key={entity} value={entity}>{entity}</option>)}
+          </select>
+        </QueryField>
+        <QueryField label="Dari">
+          <input type="date" value={query.from} onChange={(e) => onQueryChange({ from: e.target.value })} className={QUERY_INPUT_CLASS} />
+        </QueryField>
+        <QueryField label="Sampai">
+          <input type="date" value={query.to} onChange={(e) => onQueryChange({ to: e.target.value })} className={QUERY_INPUT_CLASS} />
+        </QueryField>
+        {hasQueryFilters && (
+          <button
+            onClick={() => onQueryChange({ platform: '', entity: '', from: '', to: '' })}
+            className="pb-2 text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E] hover:underline"
+          >
+            Reset Filter
+          </button>
+        )}
+        <p className="ml-auto pb-2 text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40">
+          {totalReviews} review
+        </p>
+      </div>
+
+      <label className="flex items-center gap-3 text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40">
+        Editing as
+        <input
+          value={editorName}
+          onChange={(e) => setEditorName(e.target.value)}
+          placeholder="Nama analis"
+          className="px-4 py-2 rounded-full border border-[#7A2E0E]/10 text-xs normal-case tracking-normal font-sans text-[#141414]/70 focus:outline-none focus:border-[#7A2E0E]/40"
+        />
+      </label>
+
       <div className="bg-white rounded-3xl shadow-[0_20px_60px_rgba(122,46,14,0.04)] border border-[#7A2E0E]/5 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
@@ -1149,28 +3167,27 @@ function ReviewsDetailPage({
                 <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Platform</th>
                 <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Date</th>
                 <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Review Content</th>
+                <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Reach</th>
+                <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Rating</th>
                 <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Sentiment</th>
                 <th className="py-6 px-8 text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Entity</th>
+                <th className="py-6 px-8" />
               </tr>
             </thead>
             <tbody className="divide-y divide-[#7A2E0E]/5">
-              {mentions.slice((currentPageNum - 1) * reviewsPerPage, currentPageNum * reviewsPerPage).map((m) => {
-                const analysis = analyses.find(a => (a as any).mentionId === m.id);
-                return (
-                  <tr key={m.id} className="hover:bg-[#F1EEE8]/40 transition-colors">
-                    <td className="py-6 px-8 text-sm font-medium text-[#7A2E0E]/80">{m.source}</td>
-                    <td className="py-6 px-8 text-sm font-mono text-[#7A2E0E]/40">{m.date}</td>
-                    <td className="py-6 px-8 text-sm leading-relaxed text-[#141414]/70">{m.content}</td>
-                    <td className="py-6 px-8">
-                      <SentimentBadge sentiment={analysis?.sentiment || 'neutral'} />
-                    </td>
-                    <td className="py-6 px-8 text-xs font-bold uppercase tracking-widest text-[#7A2E0E]/60">{analysis?.entity || '-'}</td>
-                  </tr>
-                );
-              })}
+              {mentions.map((m) => (
+                <EditableReviewRow
+                  key={m.id}
+                  mention={m}
+                  analysis={analysisByMention.get(m.id)}
+                  entityOptions={entityOptions}
+                  editorName={editorName}
+                  onSaved={onAnalysisChange}
+                />
+              ))}
               {mentions.length === 0 && (
                 <tr>
-                  <td colSpan={5} className="py-20 text-center font-mono text-sm opacity-30 uppercase tracking-widest">
+                  <td colSpan={8} className="py-20 text-center font-mono text-sm opacity-30 uppercase tracking-widest">
                     No reviews found for this filter.
                   </td>
                 </tr>
@@ -1180,10 +3197,10 @@ function ReviewsDetailPage({
         </div>
 
         {/* Pagination */}
-        {mentions.length > reviewsPerPage && (
+        {totalReviews > reviewsPerPage && (
           <div className="p-8 border-t border-[#7A2E0E]/5 flex items-center justify-between">
             <p className="text-xs font-mono opacity-40 text-[#7A2E0E]">
-              Page {currentPageNum} of {Math.ceil(mentions.length / reviewsPerPage)}
+              Page {currentPageNum} of {totalPages}
             </p>
             <div className="flex gap-2">
               <button 
@@ -1194,7 +3211,7 @@ function ReviewsDetailPage({
                 <ChevronLeft size={20} />
               </button>
               <button 
-                disabled={currentPageNum === Math.ceil(mentions.length / reviewsPerPage)}
+                disabled={currentPageNum >= totalPages}
                 onClick={() => setCurrentPageNum(p => p + 1)}
                 className="p-2 rounded-full hover:bg-[#7A2E0E]/5 disabled:opacity-20 transition-colors text-[#7A2E0E]"
               >
@@ -1208,6 +3225,402 @@ function ReviewsDetailPage({
   );
 }
 
+const REVIEW_SORT_OPTIONS: Array<{ value: `${ReviewSortField}:${ReviewQuery['order']}`, label: string }> = [
+  { value: 'relevance:desc', label: 'Paling relevan' },
+  { value: 'date:desc', label: 'Terbaru' },
+  { value: 'date:asc', label: 'Terlama' },
+  { value: 'score:desc', label: 'Skor tertinggi' },
+  { value: 'score:asc', label: 'Skor terendah' },
+  { value: 'platform:asc', label: 'Platform A-Z' },
+];
+
+const QUERY_INPUT_CLASS = 'px-4 py-2 rounded-full border border-[#7A2E0E]/10 bg-white text-xs text-[#141414]/70 focus:outline-none focus:border-[#7A2E0E]/40';
+
+function QueryField({ label, children }: { label: string, children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1 text-[10px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+const EDITOR_NAME_KEY = 'kana-editor-name';
+
+const SENTIMENT_OPTIONS: SentimentType[] = ['positive', 'neutral', 'negative'];
+
+// The server rejects a positive score at or below 0.5 and a negative one at or above it, so a score left
+// on the wrong side by a sentiment change is moved to that sentiment's default.
+function rescoreForSentiment(sentiment: SentimentType, score: string) {
+  const value = Number(score);
+  if (sentiment === 'positive' && !(value > 0.5)) return '0.8';
+  if (sentiment === 'negative' && !(value < 0.5)) return '0.2';
+  return score;
+}
+
+// One row of the detailed review table. Corrections are saved through PATCH /api/reviews/:id,
+// which records each changed field in the review's history.
+function EditableReviewRow({ mention, analysis, entityOptions, editorName, onSaved }: { mention: Mention, analysis?: SentimentAnalysis, entityOptions: string[], editorName: string, onSaved: (analysis: SentimentAnalysis) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const initialDraft = () => ({
+    sentiment: analysis?.sentiment || 'neutral',
+    score: String(analysis?.score ?? 0.5),
+    entity: analysis?.entity || 'General',
+    emotion: analysis?.emotion ?? '',
+    intent: analysis?.intent ?? '',
+    // Emotion and intent are only sent once the analyst picks them, so the server can clear the
+    // model's labels when the sentiment changes.
+    emotionTouched: false,
+    intentTouched: false,
+  });
+  const [draft, setDraft] = useState(initialDraft);
+  const [history, setHistory] = useState<ReviewHistoryEntry[] | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+
+  const startEditing = () => {
+    setDraft(initialDraft());
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    const score = Number(draft.score);
+    if (!Number.isFinite(score) || score < 0 || score > 1) {
+      setError('Score harus di antara 0 dan 1.');
+      return;
+    }
+    // Only fields the analyst changed are sent; saving an untouched draft is not a correction.
+    const initial = initialDraft();
+    const changes = {
+      sentiment: draft.sentiment !== initial.sentiment ? draft.sentiment : undefined,
+      score: score !== Number(initial.score) ? score : undefined,
+      entity: draft.entity !== initial.entity ? draft.entity : undefined,
+      emotion: draft.emotionTouched ? draft.emotion || null : undefined,
+      intent: draft.intentTouched ? draft.intent || null : undefined,
+    };
+    if (Object.values(changes).every((value) => value === undefined)) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(buildApiUrl(`/api/reviews/${mention.id}`), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...changes, changed_by: editorName.trim() || undefined })
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(result?.error || `Server responded with status ${response.status}`);
+      onSaved({
+        mentionId: mention.id,
+        sentiment: result.review.sentiment,
+        score: result.review.score,
+        entity: result.review.entity,
+        aspects: result.review.aspects,
+        analysisSource: result.review.analysis_source,
+        analysisModel: result.review.analysis_model,
+        promptVersion: result.review.prompt_version,
+        explanation: result.review.explanation,
+        keywords: result.review.keywords || [],
+        confidence: result.review.confidence,
+        emotion: result.review.emotion,
+        intent: result.review.intent
+      });
+      setEditing(false);
+      if (history) loadHistory();
+    } catch (err: any) {
+      console.error('Review correction error:', err);
+      setError(err.message || 'Failed to save correction.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadHistory = async () => {
+    try {
+      const response = await fetch(buildApiUrl(`/api/reviews/${mention.id}/history`));
+      if (response.ok) setHistory(await response.json());
+    } catch (err) {
+      console.error('Failed to load review history:', err);
+    }
+  };
+
+  const toggleHistory = () => {
+    if (history) {
+      setHistory(null);
+    } else {
+      loadHistory();
+    }
+  };
+
+  const options = entityOptions.includes(draft.entity) ? entityOptions : [draft.entity, ...entityOptions];
+
+  return (
+    <>
+      <tr className="hover:bg-[#F1EEE8]/40 transition-colors">
+        <td className="py-6 px-8 text-sm font-medium text-[#7A2E0E]/80">
+          {mention.source}
+          {mention.author && <p className="text-[10px] font-mono text-[#7A2E0E]/40 mt-1">{mention.author}</p>}
+        </td>
+        <td className="py-6 px-8 text-sm font-mono text-[#7A2E0E]/40">{mention.date}</td>
+        <td className="py-6 px-8 text-sm leading-relaxed text-[#141414]/70">
+          <ReviewContent mention={mention} />
+        </td>
+        <td className="py-6 px-8 text-xs font-mono text-[#7A2E0E]/60">{mention.reach ? formatCompact(mention.reach) : '-'}</td>
+        <td className="py-6 px-8 text-xs font-mono text-[#7A2E0E]/60"><StarRating rating={mention.rating} /></td>
+        {editing ? (
+          <>
+            <td className="py-6 px-8 space-y-2">
+              <select
+                value={draft.sentiment}
+                // The model's emotion and intent were read with its sentiment, so they are picked again.
+                onChange={(e) => {
+                  const sentiment = e.target.value as SentimentType;
+                  setDraft({ ...draft, sentiment, score: rescoreForSentiment(sentiment, draft.score), emotion: '', intent: '', emotionTouched: false, intentTouched: false });
+                }}
+                className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 text-xs capitalize"
+              >
+                {SENTIMENT_OPTIONS.map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.score}
+                onChange={(e) => setDraft({ ...draft, score: e.target.value })}
+                className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 text-xs font-mono"
+              />
+            </td>
+            <td className="py-6 px-8 space-y-2">
+              <select
+                value={draft.entity}
+                onChange={(e) => setDraft({ ...draft, entity: e.target.value })}
+                className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 text-xs"
+              >
+                {options.map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <select
+                value={draft.emotion}
+                onChange={(e) => setDraft({ ...draft, emotion: e.target.value as Emotion | '', emotionTouched: true })}
+                className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 text-xs capitalize"
+              >
+                <option value="">Emotion: -</option>
+                {(Object.keys(EMOTION_COLORS) as Emotion[]).map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <select
+                value={draft.intent}
+                onChange={(e) => setDraft({ ...draft, intent: e.target.value as Intent | '', intentTouched: true })}
+                className="w-full px-3 py-2 rounded-xl border border-[#7A2E0E]/10 text-xs capitalize"
+              >
+                <option value="">Intent: -</option>
+                {(Object.keys(INTENT_COLORS) as Intent[]).map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </td>
+            <td className="py-6 px-8">
+              <div className="flex gap-3">
+                <button disabled={saving} onClick={save} title="Save" className="text-[#6E7C3A] disabled:opacity-30"><Check size={16} /></button>
+                <button disabled={saving} onClick={() => setEditing(false)} title="Cancel" className="text-[#7A2E0E]/40 hover:text-[#7A2E0E]"><X size={16} /></button>
+              </div>
+            </td>
+          </>
+        ) : (
+          <>
+            <td className="py-6 px-8">
+              <SentimentBadge sentiment={analysis?.sentiment || 'neutral'} />
+              {analysis?.analysisSource === 'manual' && (
+                <p className="text-[9px] font-mono font-bold uppercase tracking-widest text-[#7A2E0E]/40 mt-2">Manual</p>
+              )}
+              {analysis && <AnalysisDetailsToggle expanded={showDetails} onClick={() => setShowDetails(!showDetails)} />}
+            </td>
+            <td className="py-6 px-8 text-xs font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+              {analysis ? <AspectList analysis={analysis} /> : '-'}
+            </td>
+            <td className="py-6 px-8">
+              <div className="flex gap-3">
+                <button onClick={startEditing} title="Edit labels" className="text-[#7A2E0E]/40 hover:text-[#7A2E0E]"><Pencil size={14} /></button>
+                <button onClick={toggleHistory} title="Change history" className={cn("hover:text-[#7A2E0E]", history ? "text-[#7A2E0E]" : "text-[#7A2E0E]/40")}><History size={14} /></button>
+              </div>
+            </td>
+          </>
+        )}
+      </tr>
+      {showDetails && analysis && (
+        <tr className="bg-[#F1EEE8]/30">
+          <td colSpan={8} className="px-8 py-6">
+            <AnalysisDetails analysis={analysis} />
+          </td>
+        </tr>
+      )}
+      {(error || history) && (
+        <tr className="bg-[#F1EEE8]/30">
+          <td colSpan={8} className="px-8 py-4 text-xs">
+            {error && <p className="text-red-600">{error}</p>}
+            {history && (history.length === 0 ? (
+              <p className="font-mono opacity-40 uppercase tracking-widest">Belum ada koreksi manual.</p>
+            ) : (
+              <ul className="space-y-1 font-mono text-[#141414]/60">
+                {history.map((entry) => (
+                  <li key={entry.id}>
+                    {format(parseISO(entry.changed_at), 'dd MMM yyyy, HH:mm')} • {entry.changed_by} • {entry.field}: {formatHistoryValue(entry, entry.old_value)} → {formatHistoryValue(entry, entry.new_value)}
+                  </li>
+                ))}
+              </ul>
+            ))}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function ShareOfVoicePanel({ items }: { items: ShareOfVoiceItem[] }) {
+  return (
+    <div className="bg-white p-10 rounded-3xl shadow-[0_20px_60px_rgba(122,46,14,0.04)] border border-[#7A2E0E]/5 space-y-8">
+      <div>
+        <h3 className="font-serif italic text-3xl text-[#7A2E0E]">Share of Voice</h3>
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">Mentions vs Reach per Platform</p>
+      </div>
+      {items.length === 0 ? (
+        <p className="font-mono text-xs opacity-40 uppercase tracking-widest text-[#7A2E0E]">No platform data yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {items.map((item) => (
+            <div key={item.platform} className="space-y-2">
+              <div className="flex items-baseline justify-between">
+                <span className="text-sm font-bold uppercase tracking-wider text-[#7A2E0E]">{item.platform}</span>
+                <span className="text-[10px] font-mono opacity-50 text-[#7A2E0E]">
+                  {item.mentions} mentions • {formatCompact(item.reach)} reach
+                </span>
+              </div>
+              <div className="space-y-1">
+                <div className="h-2 w-full bg-[#7A2E0E]/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-[#B8A486] rounded-full" style={{ width: `${item.mention_share * 100}%` }} />
+                </div>
+                <div className="h-2 w-full bg-[#7A2E0E]/5 rounded-full overflow-hidden">
+                  <div className="h-full bg-[#7A2E0E] rounded-full" style={{ width: `${item.reach_share * 100}%` }} />
+                </div>
+              </div>
+              <p className="text-[10px] font-mono opacity-50 text-[#7A2E0E]">
+                Weighted: {(item.weighted_positive_share * 100).toFixed(1)}% positive • {(item.weighted_negative_share * 100).toFixed(1)}% negative
+              </p>
+            </div>
+          ))}
+          <div className="flex gap-6 text-[10px] font-bold uppercase tracking-widest text-[#7A2E0E]/60">
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-[#B8A486]" /> Mention Share</span>
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-[#7A2E0E]" /> Reach Share</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RatingAgreementPanel({ agreement }: { agreement: KpiData['rating_agreement'] }) {
+  const data = agreement.by_rating.map((row) => ({ ...row, label: `${row.rating}★` }));
+
+  return (
+    <div className="bg-white p-10 rounded-3xl shadow-[0_20px_60px_rgba(122,46,14,0.04)] border border-[#7A2E0E]/5 space-y-8">
+      <div className="flex items-start justify-between gap-6">
+        <div>
+          <h3 className="font-serif italic text-3xl text-[#7A2E0E]">Rating vs Sentiment</h3>
+          <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+            {agreement.rated_reviews} rated reviews
+            {agreement.average_rating !== null && ` • avg ${agreement.average_rating.toFixed(2)}★`}
+          </p>
+        </div>
+        {agreement.agreement_rate !== null && (
+          <div className="text-right">
+            <p className="text-3xl font-bold text-[#7A2E0E]">{(agreement.agreement_rate * 100).toFixed(1)}%</p>
+            <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono font-bold text-[#7A2E0E]">Agreement</p>
+          </div>
+        )}
+      </div>
+      {data.length === 0 ? (
+        <p className="font-mono text-xs opacity-40 uppercase tracking-widest text-[#7A2E0E]">No star ratings in the uploaded data.</p>
+      ) : (
+        <div className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#7A2E0E10" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#7A2E0E' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#7A2E0E' }} allowDecimals={false} />
+              <Tooltip />
+              <Bar dataKey="positive" stackId="sentiment" fill="#6E7C3A" name="Positive" />
+              <Bar dataKey="neutral" stackId="sentiment" fill="#B8A486" name="Neutral" />
+              <Bar dataKey="negative" stackId="sentiment" fill="#B0412E" name="Negative" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  joy: '#6E7C3A',
+  surprise: '#D4A373',
+  disappointment: '#B86934',
+  anger: '#B0412E',
+  none: '#B8A486',
+};
+
+const INTENT_COLORS: Record<Intent, string> = {
+  praise: '#6E7C3A',
+  suggestion: '#D4A373',
+  question: '#7A2E0E',
+  complaint: '#B0412E',
+  other: '#B8A486',
+};
+
+// Emotion and intent counts side by side; intent decides the follow-up (reply, fix, pass on to the team).
+function EmotionIntentPanel({ breakdown }: { breakdown: EmotionIntentBreakdown }) {
+  const charts = [
+    { title: 'Emotion', data: breakdown.emotions.map((row) => ({ label: row.emotion, count: row.count, color: EMOTION_COLORS[row.emotion] })) },
+    { title: 'Intent', data: breakdown.intents.map((row) => ({ label: row.intent, count: row.count, color: INTENT_COLORS[row.intent] })) },
+  ];
+  const hasData = charts.some((chart) => chart.data.some((row) => row.count > 0));
+
+  return (
+    <div className="bg-white p-10 rounded-3xl shadow-[0_20px_60px_rgba(122,46,14,0.04)] border border-[#7A2E0E]/5 space-y-8">
+      <div>
+        <h3 className="font-serif italic text-3xl text-[#7A2E0E]">Emotion & Intent</h3>
+        <p className="text-[10px] uppercase tracking-widest opacity-40 font-mono mt-2 font-bold text-[#7A2E0E]">
+          Complaint, saran dan pertanyaan butuh tindak lanjut berbeda
+          {breakdown.unclassified > 0 && ` • ${breakdown.unclassified} review belum diklasifikasi (analisis ulang untuk melengkapi)`}
+        </p>
+      </div>
+      {!hasData ? (
+        <p className="font-mono text-xs opacity-40 uppercase tracking-widest text-[#7A2E0E]">No emotion or intent labels yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+          {charts.map((chart) => (
+            <div key={chart.title} className="space-y-4">
+              <p className="text-[10px] uppercase tracking-widest opacity-40 font-bold font-mono">{chart.title}</p>
+              <div className="h-[240px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chart.data} layout="vertical" margin={{ left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#7A2E0E10" />
+                    <XAxis type="number" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#7A2E0E' }} allowDecimals={false} />
+                    <YAxis type="category" dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11, fill: '#7A2E0E' }} width={100} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Reviews" radius={[0, 6, 6, 0]}>
+                      {chart.data.map((row) => <Cell key={row.label} fill={row.color} />)}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function FilterButton({ active, onClick, label, color }: { active: boolean, onClick: () => void, label: string, color: string }) {
   return (
     <button 
@@ -1402,6 +3815,39 @@ function StatCard({ label, value, trend, trendType, icon }: { label: string, val
   );
 }
 
+// Renders a search snippet's <mark></mark> spans as highlights without interpreting any other markup.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/<mark>(.*?)<\/mark>/s).map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-[#B86934]/20 text-[#7A2E0E] rounded px-0.5">{part}</mark>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+function ReviewContent({ mention }: { mention: Mention }) {
+  const text = mention.snippet ? <HighlightedSnippet snippet={mention.snippet} /> : mention.content;
+  if (!mention.url) return <>{text}</>;
+  return (
+    <a href={mention.url} target="_blank" rel="noopener noreferrer" className="hover:text-[#7A2E0E] transition-colors" title={mention.externalId || mention.url}>
+      {text}
+      <ExternalLink size={12} className="inline ml-1.5 -mt-0.5 opacity-40" />
+    </a>
+  );
+}
+
+function StarRating({ rating }: { rating?: number | null }) {
+  if (rating === null || rating === undefined) return <>-</>;
+  return (
+    <span className="inline-flex items-center gap-1 whitespace-nowrap">
+      <Star size={12} className="fill-[#B86934] text-[#B86934]" />
+      {rating.toFixed(1)}
+    </span>
+  );
+}
+
 function SentimentBadge({ sentiment }: { sentiment: 'positive' | 'neutral' | 'negative' }) {
   const styles = {
     positive: "bg-[#6E7C3A]/10 text-[#6E7C3A] border-[#6E7C3A]/20",
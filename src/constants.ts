@@ -5,6 +5,11 @@ export interface Mention {
   date: string;
   author: string;
   reach: number;
+  rating?: number | null;
+  url?: string | null;
+  externalId?: string | null;
+  // Search excerpt with the matched words wrapped in <mark></mark>.
+  snippet?: string | null;
 }
 
 export const MOCK_MENTIONS: Mention[] = [